@@ -13,6 +13,10 @@ import { History } from "./pages/History";
 import MetadataOptimizer from "./pages/MetadataOptimizer";
 import IntentAnalysis from "./pages/IntentAnalysis";
 import { OpportunityFinder } from "./pages/OpportunityFinder";
+import { LongTailExplorer } from "./pages/LongTailExplorer";
+import { CacheAdmin } from "./pages/CacheAdmin";
+import { AppExplorer } from "./pages/AppExplorer";
+import { DeveloperProfile } from "./pages/DeveloperProfile";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -32,16 +36,20 @@ const App = () => {
           <Route path="/" element={<Layout />}>
             <Route index element={<Dashboard />} />
             <Route path="keywords" element={<KeywordResearch />} />
+            <Route path="long-tail" element={<LongTailExplorer />} />
             <Route path="jobs" element={<KeywordJobs />} />
             <Route path="opportunities" element={<OpportunityFinder />} />
             <Route path="apps" element={<MyApps />} />
             <Route path="apps/:appId" element={<AppDetails />} />
+            <Route path="charts" element={<AppExplorer />} />
+            <Route path="developers/:developerId" element={<DeveloperProfile />} />
             <Route path="tracking" element={<MyTracking />} />
             <Route path="competitors" element={<CompetitorAnalysis />} />
             <Route path="ai-tools" element={<AITools />} />
             <Route path="history" element={<History />} />
             <Route path="metadata" element={<MetadataOptimizer />} />
             <Route path="intent" element={<IntentAnalysis />} />
+            <Route path="cache" element={<CacheAdmin />} />
           </Route>
         </Routes>
       </BrowserRouter>
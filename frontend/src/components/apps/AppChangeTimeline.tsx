@@ -0,0 +1,149 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { FileText, History, Tag } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/Card'
+import { Badge } from '../ui/Badge'
+import { appApi, type AppFieldChange } from '../../lib/api'
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Title',
+  description: 'Description',
+  releaseNotes: 'Release notes',
+  version: 'Version',
+  price: 'Price',
+  currency: 'Currency',
+  rating: 'Rating',
+  ratingCount: 'Rating count',
+  category: 'Category',
+  icon: 'Icon',
+  screenshots: 'Screenshots',
+  ipadScreenshots: 'iPad screenshots',
+  languages: 'Languages',
+  contentRating: 'Content rating',
+}
+
+// Changes that matter for ASO get highlighted in the timeline
+const ASO_FIELDS = new Set(['name', 'description'])
+// Below this word overlap a text change counts as a rewrite rather than an edit
+const REWRITE_SIMILARITY = 0.6
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—'
+  if (Array.isArray(value)) return `${value.length} items`
+  if (typeof value === 'number') return value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+  return String(value)
+}
+
+function ChangeRow({ change }: { change: AppFieldChange }) {
+  const [expanded, setExpanded] = useState(false)
+  const label = FIELD_LABELS[change.field] || change.field
+  const isLongText = change.field === 'description' || change.field === 'releaseNotes'
+  const isRewrite = change.similarity !== undefined && change.similarity < REWRITE_SIMILARITY
+
+  return (
+    <div className={`rounded-lg p-3 ${ASO_FIELDS.has(change.field) ? 'bg-primary/10 border border-primary/30' : 'bg-secondary/50'}`}>
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <span className="font-semibold text-sm">{label}</span>
+          {change.similarity !== undefined && (
+            <Badge variant={isRewrite ? 'danger' : 'secondary'}>
+              {isRewrite ? 'Rewrite' : 'Edit'} · {Math.round(change.similarity * 100)}% same words
+            </Badge>
+          )}
+        </div>
+        {isLongText && (
+          <button className="text-xs text-primary hover:underline" onClick={() => setExpanded(!expanded)}>
+            {expanded ? 'Hide' : 'Show'} before/after
+          </button>
+        )}
+      </div>
+
+      {isLongText ? (
+        expanded && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mt-3 text-xs">
+            <p className="whitespace-pre-line text-muted-foreground line-through decoration-red-400/40">{formatValue(change.from)}</p>
+            <p className="whitespace-pre-line">{formatValue(change.to)}</p>
+          </div>
+        )
+      ) : (
+        <p className="text-sm mt-1">
+          <span className="text-muted-foreground line-through">{formatValue(change.from)}</span>
+          <span className="mx-2">→</span>
+          <span>{formatValue(change.to)}</span>
+        </p>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Changes tab of the App Details page: when the app's storefront metadata changed, newest first
+ */
+export function AppChangeTimeline({ appId, country = 'us' }: { appId: string; country?: string }) {
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['app-changes', appId, country],
+    queryFn: async () => (await appApi.getChanges(appId, country)).data,
+  })
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5 text-primary" />
+          Change History
+        </CardTitle>
+        <CardDescription>
+          {data?.firstSeen
+            ? `Tracking since ${new Date(data.firstSeen).toLocaleDateString()} - changes are detected whenever the app is looked up`
+            : 'Changes are detected whenever the app is looked up'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-center py-6 text-muted-foreground">Loading history...</p>
+        ) : error ? (
+          <p className="text-center py-6 text-red-400">Failed to load history: {(error as Error).message}</p>
+        ) : data && data.changes.length > 0 ? (
+          <ol className="relative border-l border-stone-800 ml-3 space-y-6">
+            {data.changes.map((entry) => {
+              const hasAsoChange = entry.changes.some((change) => ASO_FIELDS.has(change.field))
+              const versionChange = entry.changes.find((change) => change.field === 'version')
+
+              return (
+                <li key={entry.id} className="ml-6">
+                  <span
+                    className={`absolute -left-3 flex h-6 w-6 items-center justify-center rounded-full ${
+                      hasAsoChange ? 'bg-primary text-primary-foreground' : 'bg-secondary text-muted-foreground'
+                    }`}
+                  >
+                    {hasAsoChange ? <FileText className="h-3 w-3" /> : <Tag className="h-3 w-3" />}
+                  </span>
+                  <div className="flex flex-wrap items-center gap-2 mb-2">
+                    <span className="font-semibold">{new Date(entry.observedAt).toLocaleString()}</span>
+                    {versionChange && (
+                      <Badge variant="success">
+                        Version {formatValue(versionChange.from)} → {formatValue(versionChange.to)}
+                      </Badge>
+                    )}
+                    {hasAsoChange && <Badge variant="warning">ASO change</Badge>}
+                  </div>
+                  <div className="space-y-2">
+                    {entry.changes
+                      .filter((change) => change.field !== 'version')
+                      .map((change) => (
+                        <ChangeRow key={change.field} change={change} />
+                      ))}
+                  </div>
+                </li>
+              )
+            })}
+          </ol>
+        ) : (
+          <p className="text-center py-6 text-muted-foreground">
+            No changes observed yet{data?.snapshotCount ? '' : ' - the first lookup records a baseline'}.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,178 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Download, Database, Star } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/Card'
+import { Button } from '../ui/Button'
+import { Badge } from '../ui/Badge'
+import { appApi } from '../../lib/api'
+
+const PAGE_SIZE = 50
+
+const getPhraseVariant = (avgRating: number) => {
+  if (avgRating >= 4) return 'success'
+  if (avgRating >= 3) return 'warning'
+  return 'danger'
+}
+
+/**
+ * Reviews tab of the App Details page: stored customer reviews and the phrases mined from them
+ */
+export function AppReviews({ appId, country = 'us' }: { appId: string; country?: string }) {
+  const queryClient = useQueryClient()
+  const [rating, setRating] = useState<number | undefined>(undefined)
+  const [page, setPage] = useState(0)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const { data: reviews, isLoading } = useQuery({
+    queryKey: ['app-reviews', appId, country, rating, page],
+    queryFn: async () =>
+      (await appApi.getReviews(appId, country, { rating, limit: PAGE_SIZE, offset: page * PAGE_SIZE })).data,
+  })
+
+  const { data: phrases } = useQuery({
+    queryKey: ['app-review-phrases', appId, country],
+    queryFn: async () => (await appApi.getReviewPhrases(appId, country)).data,
+  })
+
+  const ingest = useMutation({
+    mutationFn: async () => (await appApi.ingestReviews(appId, country)).data,
+    onSuccess: (result) => {
+      setMessage(`Fetched ${result.fetched} reviews from ${result.pages} pages, ${result.added} new`)
+      queryClient.invalidateQueries({ queryKey: ['app-reviews', appId, country] })
+      queryClient.invalidateQueries({ queryKey: ['app-review-phrases', appId, country] })
+    },
+  })
+
+  const mine = useMutation({
+    mutationFn: async () => (await appApi.mineReviewKeywords(appId, country)).data,
+    onSuccess: (result) => {
+      setMessage(`Added ${result.added} of ${result.candidates} phrases to the keyword bank`)
+    },
+  })
+
+  const error = ingest.error || mine.error
+  const totalPages = reviews ? Math.ceil(reviews.total / PAGE_SIZE) : 0
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <Button onClick={() => ingest.mutate()} disabled={ingest.isPending}>
+          <Download className="h-4 w-4 mr-2" />
+          {ingest.isPending ? 'Fetching...' : 'Fetch New Reviews'}
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => mine.mutate()}
+          disabled={mine.isPending || !phrases?.phrases.length}
+        >
+          <Database className="h-4 w-4 mr-2" />
+          Add Phrases to Keyword Bank
+        </Button>
+        {message && <span className="text-sm text-emerald-400">{message}</span>}
+        {error && <span className="text-sm text-red-400">{(error as Error).message}</span>}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Mined Phrases</CardTitle>
+          <CardDescription>
+            Phrases used in at least two of {phrases?.reviewCount ?? 0} stored reviews, colored by the average rating of
+            those reviews
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {phrases && phrases.phrases.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {phrases.phrases.map((entry) => (
+                <Badge key={entry.phrase} variant={getPhraseVariant(entry.avgRating)} className="text-sm">
+                  {entry.phrase}
+                  <span className="ml-1 text-xs opacity-70">
+                    ({entry.reviews} · {entry.avgRating}★)
+                  </span>
+                </Badge>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center py-6 text-muted-foreground">
+              No phrases yet. Fetch reviews to mine what users write about this app.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span>Reviews</span>
+            {reviews && <Badge>{reviews.total} reviews</Badge>}
+          </CardTitle>
+          {reviews && (
+            <div className="flex flex-wrap gap-2 pt-2">
+              <Button
+                size="sm"
+                variant={rating === undefined ? 'primary' : 'outline'}
+                onClick={() => { setRating(undefined); setPage(0) }}
+              >
+                All
+              </Button>
+              {[5, 4, 3, 2, 1].map((stars) => (
+                <Button
+                  key={stars}
+                  size="sm"
+                  variant={rating === stars ? 'primary' : 'outline'}
+                  onClick={() => { setRating(stars); setPage(0) }}
+                >
+                  {stars}★ ({reviews.ratingCounts[stars] || 0})
+                </Button>
+              ))}
+            </div>
+          )}
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-center py-6 text-muted-foreground">Loading reviews...</p>
+          ) : reviews && reviews.reviews.length > 0 ? (
+            <div className="divide-y divide-stone-800">
+              {reviews.reviews.map((review) => (
+                <div key={review.id} className="py-4 space-y-1">
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="flex items-center gap-2">
+                      <div className="flex text-primary">
+                        {Array.from({ length: 5 }, (_, i) => (
+                          <Star key={i} className={`h-4 w-4 ${i < review.rating ? 'fill-current' : 'opacity-30'}`} />
+                        ))}
+                      </div>
+                      <span className="font-semibold">{review.title}</span>
+                    </div>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                      {review.version && `v${review.version} · `}
+                      {new Date(review.reviewedAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{review.body}</p>
+                  {review.author && <p className="text-xs text-muted-foreground">— {review.author}</p>}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-center py-6 text-muted-foreground">No reviews stored for this app yet.</p>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex items-center justify-between pt-4">
+              <Button size="sm" variant="outline" onClick={() => setPage(page - 1)} disabled={page === 0}>
+                Previous
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Page {page + 1} of {totalPages}
+              </span>
+              <Button size="sm" variant="outline" onClick={() => setPage(page + 1)} disabled={page + 1 >= totalPages}>
+                Next
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import type { DifficultyFactor, DifficultyFactorName } from '../../lib/api'
+import { formatNumber } from '../../lib/utils'
+
+const factorDetails: Record<DifficultyFactorName, { label: string; color: string; formatRaw: (raw: number) => string }> = {
+  avgRating: { label: 'Avg rating', color: 'bg-amber-500', formatRaw: (raw) => `${raw.toFixed(1)}★` },
+  avgRatingCount: { label: 'Avg rating count', color: 'bg-orange-500', formatRaw: (raw) => formatNumber(Math.round(raw)) },
+  topAppStrength: { label: 'Top 3 app strength', color: 'bg-red-500', formatRaw: (raw) => `${Math.round(raw * 100)}%` },
+  competitorCount: { label: 'Competitors', color: 'bg-rose-400', formatRaw: (raw) => String(raw) },
+  titleMatch: { label: 'Title match', color: 'bg-fuchsia-500', formatRaw: (raw) => `${Math.round(raw * 100)}%` },
+}
+
+interface DifficultyBreakdownProps {
+  factors: DifficultyFactor[]
+}
+
+/**
+ * Stacked bar of each factor's contribution to the difficulty score, with a legend
+ * showing the raw value, normalized value and weight behind every segment
+ */
+export function DifficultyBreakdown({ factors }: DifficultyBreakdownProps) {
+  if (factors.length === 0) {
+    return <p className="text-xs text-muted-foreground">No competing apps - minimum difficulty</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="w-full bg-secondary rounded-full h-3 overflow-hidden flex">
+        {factors.map((f) => (
+          <div
+            key={f.factor}
+            className={`h-full ${factorDetails[f.factor].color}`}
+            style={{ width: `${f.contribution}%` }}
+            title={`${factorDetails[f.factor].label}: ${f.contribution} of ${f.weight}`}
+          />
+        ))}
+      </div>
+      <div className="space-y-1">
+        {factors.map((f) => (
+          <div key={f.factor} className="flex items-center justify-between text-xs">
+            <span className="flex items-center gap-2">
+              <span className={`inline-block h-2 w-2 rounded-full ${factorDetails[f.factor].color}`} />
+              {factorDetails[f.factor].label}
+              <span className="text-muted-foreground">
+                {factorDetails[f.factor].formatRaw(f.raw)} → {Math.round(f.normalized * 100)}%
+              </span>
+            </span>
+            <span className="font-mono text-muted-foreground">
+              {f.contribution} / {f.weight}
+            </span>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
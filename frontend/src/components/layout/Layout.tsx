@@ -10,6 +10,9 @@ import {
   History,
   Menu,
   Clock,
+  GitBranch,
+  Database,
+  BarChart3,
 } from 'lucide-react'
 import { useState } from 'react'
 import { cn } from '../../lib/utils'
@@ -17,13 +20,16 @@ import { cn } from '../../lib/utils'
 const navigation = [
   { name: 'Dashboard', to: '/', icon: LayoutDashboard },
   { name: 'Keyword Research', to: '/keywords', icon: Search },
+  { name: 'Long-tail Explorer', to: '/long-tail', icon: GitBranch },
   { name: 'Keyword Jobs', to: '/jobs', icon: Clock },
   { name: 'Opportunity Finder', to: '/opportunities', icon: Lightbulb },
   { name: 'My Tracking', to: '/tracking', icon: Bookmark },
   { name: 'App Explorer', to: '/apps', icon: Smartphone },
+  { name: 'Top Charts', to: '/charts', icon: BarChart3 },
   { name: 'Competitors', to: '/competitors', icon: Users },
   { name: 'AI Tools', to: '/ai-tools', icon: Sparkles },
   { name: 'History', to: '/history', icon: History },
+  { name: 'Cache', to: '/cache', icon: Database },
 ]
 
 export function Layout() {
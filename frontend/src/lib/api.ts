@@ -7,17 +7,82 @@ export const api = axios.create({
   },
 });
 
+// Shortest autocomplete prefix that surfaced the keyword (prefixLength is null if none did)
+export interface PrefixDepth {
+  keywordLength: number;
+  prefixLength: number | null;
+  position: number | null;
+  priority: number | null;
+  probes: number;
+}
+
+// How directly a competing app targets the keyword (exact phrase in title, some words or description, neither)
+export type TitleMatch = 'exact' | 'partial' | 'none';
+
+export interface TitleMatchEntry {
+  rank: number;
+  id: number;
+  name: string;
+  titleMatch: TitleMatch;
+}
+
+export type DifficultyFactorName = 'avgRating' | 'avgRatingCount' | 'topAppStrength' | 'competitorCount' | 'titleMatch';
+
+// One weighted input of the difficulty score; contributions sum to the score (before capping at 100)
+export interface DifficultyFactor {
+  factor: DifficultyFactorName;
+  raw: number;
+  normalized: number;
+  weight: number;
+  contribution: number;
+}
+
 export interface KeywordAnalysisResponse {
   keyword: string;
   country: string;
   popularity: number;
+  popularitySource?: 'apple_search_ads' | 'estimate';
   difficulty: number;
+  difficultyFactors?: DifficultyFactor[];
   competitorCount: number;
   topApps: any[];
   relatedTerms: string[];
+  titleMatches?: TitleMatchEntry[];
+  prefixDepth?: PrefixDepth;
+  modelVersion?: string;
   analyzedAt: string;
 }
 
+export interface LongTailNode {
+  keyword: string;
+  depth: number;
+  priority: number | null;
+  position: number | null;
+  sourceQuery: string | null;
+  metrics: {
+    popularity: number;
+    difficulty: number;
+    competitorCount: number;
+    opportunityScore: number;
+  } | null;
+  children: LongTailNode[];
+}
+
+export interface LongTailOptions {
+  depth?: number;
+  maxChildren?: number;
+  maxNodes?: number;
+  analyze?: boolean;
+}
+
+export interface LongTailResponse {
+  seedKeyword: string;
+  country: string;
+  tree: LongTailNode;
+  stats: { nodes: number; requests: number; depth: number; truncated: boolean };
+  opportunities: Array<{ keyword: string; depth: number } & NonNullable<LongTailNode['metrics']>>;
+}
+
 export const keywordApi = {
   analyze: (keyword: string, country = 'us') =>
     api.get<KeywordAnalysisResponse>('/keywords/analyze', { params: { keyword, country } }),
@@ -25,8 +90,8 @@ export const keywordApi = {
   getSuggestions: (keyword: string, country = 'us') =>
     api.get('/keywords/suggestions', { params: { keyword, country } }),
 
-  getLongTail: (keyword: string, country = 'us') =>
-    api.get('/keywords/long-tail', { params: { keyword, country } }),
+  getLongTail: (keyword: string, country = 'us', options: LongTailOptions = {}) =>
+    api.get<LongTailResponse>('/keywords/long-tail', { params: { keyword, country, ...options } }),
 
   compareCountries: (keyword: string, countries: string[]) =>
     api.get('/keywords/compare-countries', { params: { keyword, countries: countries.join(',') } }),
@@ -49,6 +114,56 @@ export const aiApi = {
     api.post('/ai/detailed-compare', data),
 };
 
+export interface AppReview {
+  id: string;
+  reviewId: string;
+  appId: string;
+  country: string;
+  rating: number;
+  version: string | null;
+  title: string;
+  body: string;
+  author: string | null;
+  voteCount: number;
+  reviewedAt: string;
+}
+
+export interface ReviewsResponse {
+  appId: string;
+  country: string;
+  total: number;
+  ratingCounts: Record<number, number>;
+  reviews: AppReview[];
+}
+
+export interface ReviewPhrase {
+  phrase: string;
+  reviews: number;
+  avgRating: number;
+}
+
+export interface AppFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+  similarity?: number;
+}
+
+export interface AppChangeEntry {
+  id: string;
+  observedAt: string;
+  version: string | null;
+  changes: AppFieldChange[];
+}
+
+export interface AppChangesResponse {
+  appId: string;
+  country: string;
+  firstSeen: string | null;
+  snapshotCount: number;
+  changes: AppChangeEntry[];
+}
+
 export const appApi = {
   search: (term: string, country = 'us', limit = 25) =>
     api.get('/apps/search', { params: { term, country, limit } }),
@@ -58,6 +173,52 @@ export const appApi = {
 
   extractKeywords: (appId: string, country = 'us') =>
     api.get(`/apps/${appId}/keywords`, { params: { country } }),
+
+  getChanges: (appId: string, country = 'us', limit = 50) =>
+    api.get<AppChangesResponse>(`/apps/${appId}/changes`, { params: { country, limit } }),
+
+  getReviews: (appId: string, country = 'us', options: { rating?: number; limit?: number; offset?: number } = {}) =>
+    api.get<ReviewsResponse>(`/apps/${appId}/reviews`, { params: { country, ...options } }),
+
+  ingestReviews: (appId: string, country = 'us', full = false) =>
+    api.post<{ pages: number; fetched: number; added: number }>(`/apps/${appId}/reviews/ingest`, { country, full }),
+
+  getReviewPhrases: (appId: string, country = 'us', minReviews = 2) =>
+    api.get<{ reviewCount: number; phrases: ReviewPhrase[] }>(`/apps/${appId}/reviews/phrases`, { params: { country, minReviews } }),
+
+  mineReviewKeywords: (appId: string, country = 'us') =>
+    api.post<{ candidates: number; added: number }>(`/apps/${appId}/reviews/mine`, { country }),
+
+  getChartRanks: (appId: string, country = 'us', days = 30) =>
+    api.get<AppChartTimeline>(`/apps/${appId}/charts`, { params: { country, days } }),
+};
+
+export interface DeveloperApp {
+  id: number;
+  bundleId: string;
+  name: string;
+  icon: string;
+  price: number;
+  currency: string;
+  rating?: number;
+  ratingCount?: number;
+  version: string;
+  category: string;
+  url: string;
+  releaseDate: string;
+  currentVersionReleaseDate: string;
+}
+
+export interface DeveloperPortfolio {
+  developer: { id: number; name: string; url?: string };
+  country: string;
+  count: number;
+  apps: DeveloperApp[];
+}
+
+export const developerApi = {
+  getApps: (developerId: string, country = 'us') =>
+    api.get<DeveloperPortfolio>(`/developers/${developerId}/apps`, { params: { country } }),
 };
 
 export const historyApi = {
@@ -123,27 +284,160 @@ export const trackedApi = {
     api.delete(`/tracked/app-ideas/${id}`),
 };
 
+export type JobStrategy = 'random' | 'category' | 'trending' | 'snowball' | 'competitor';
+
+export interface JobSchedule {
+  scheduleType?: 'interval' | 'cron';
+  intervalMinutes?: number;
+  cronExpression?: string;
+  timezone?: string;
+  windowStart?: string;
+  windowEnd?: string;
+}
+
+export type JobEventType =
+  | 'job.status'
+  | 'cycle.started'
+  | 'cycle.finished'
+  | 'cycle.error'
+  | 'keyword.result'
+  | 'keyword.error';
+
+export type JobStopReason = 'cycles_completed' | 'goal_reached' | 'no_new_keywords' | 'error_rate';
+
+export interface JobEvent {
+  id: number;
+  jobId: string;
+  sessionId: string | null;
+  type: JobEventType;
+  data: {
+    jobId: string;
+    status?: string;
+    cycleNumber?: number;
+    currentCycle?: number;
+    totalCycles?: number;
+    totalKeywords?: number;
+    lastRunAt?: string;
+    startedAt?: string;
+    completedAt?: string;
+    stopReason?: JobStopReason;
+    error?: string;
+    result?: { id: string; keyword: string; status: string; opportunityScore?: number | null };
+  };
+  createdAt: string;
+}
+
+// Configuration shared by jobs and job templates
+export interface JobConfig extends JobSchedule {
+  searchesPerBatch?: number;
+  totalCycles?: number;
+  country?: string;
+  // Every storefront each keyword is analyzed in; the first one drives keyword generation
+  countries?: string[];
+  strategy?: JobStrategy;
+  seedCategory?: string;
+  snowballMaxDepth?: number;
+  snowballBranching?: number;
+  seedAppIds?: string[];
+  // Stop conditions (null clears one when editing)
+  goalKeywordCount?: number | null;
+  goalMinOpportunityScore?: number | null;
+  goalMaxDifficulty?: number | null;
+  goalMinPopularity?: number | null;
+  maxIdleCycles?: number | null;
+  maxErrorRate?: number | null;
+  notes?: string;
+}
+
+export interface JobTemplate extends JobConfig {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface EstimateRange<T = number> {
+  min: T;
+  max: T;
+}
+
+export interface JobRequestCounts {
+  keywords: number;
+  analyses: number;
+  geminiCalls: EstimateRange;
+  itunesSearches: EstimateRange;
+  itunesLookups: EstimateRange;
+  searchHints: EstimateRange;
+}
+
+export interface JobEstimate {
+  strategy: JobStrategy;
+  totalCycles: number;
+  perCycle: JobRequestCounts;
+  total: JobRequestCounts;
+  cycleDurationSeconds: EstimateRange;
+  firstRunAt: string;
+  estimatedEndAt: EstimateRange<string>;
+}
+
+export type JobResultsExportFormat = 'csv' | 'ndjson' | 'xlsx';
+
+export interface JobResultsQuery {
+  status?: 'success' | 'error' | 'skipped';
+  cycle?: number;
+  sourceAppId?: string;
+  keyword?: string;
+  country?: string;
+  minPopularity?: number;
+  maxPopularity?: number;
+  minDifficulty?: number;
+  maxDifficulty?: number;
+  minOpportunityScore?: number;
+  maxOpportunityScore?: number;
+  sortBy?: 'opportunityScore' | 'popularity' | 'difficulty' | 'competitorCount' | 'keyword' | 'cycleNumber' | 'searchedAt';
+  order?: 'asc' | 'desc';
+}
+
 export const jobsApi = {
   // Job Management
   list: (sessionId?: string) =>
     api.get('/jobs', { params: { sessionId } }),
 
-  get: (jobId: string) =>
-    api.get(`/jobs/${jobId}`),
+  get: (jobId: string, includeResults = true) =>
+    api.get(`/jobs/${jobId}`, { params: includeResults ? undefined : { includeResults: false } }),
 
-  create: (data: {
-    name: string;
-    searchesPerBatch?: number;
-    intervalMinutes?: number;
-    totalCycles?: number;
-    country?: string;
-    strategy?: 'random' | 'category' | 'trending';
-    seedCategory?: string;
-    sessionId?: string;
-    notes?: string;
-  }) =>
+  results: (jobId: string, params: JobResultsQuery & { cursor?: string; limit?: number }) =>
+    api.get(`/jobs/${jobId}/results`, { params }),
+
+  // Download URL for a streamed export (used as a plain link)
+  resultsExportUrl: (jobId: string, params: JobResultsQuery, format: JobResultsExportFormat) =>
+    api.getUri({ url: `/jobs/${jobId}/results`, params: { ...params, format } }),
+
+  create: (data: JobConfig & { name: string; sessionId?: string }) =>
     api.post('/jobs', data),
 
+  // Only pending or paused jobs can be edited
+  update: (jobId: string, data: JobConfig & { name?: string }) =>
+    api.patch(`/jobs/${jobId}`, data),
+
+  clone: (jobId: string, sessionId?: string) =>
+    api.post(`/jobs/${jobId}/clone`, { sessionId }),
+
+  // Templates
+  templates: (sessionId?: string) =>
+    api.get<JobTemplate[]>('/jobs/templates', { params: { sessionId } }),
+
+  saveAsTemplate: (jobId: string, name?: string, sessionId?: string) =>
+    api.post<JobTemplate>(`/jobs/${jobId}/template`, { name, sessionId }),
+
+  deleteTemplate: (templateId: string) =>
+    api.delete(`/jobs/templates/${templateId}`),
+
+  estimate: (data: JobConfig) =>
+    api.post<JobEstimate>('/jobs/estimate', data),
+
+  previewSchedule: (schedule: JobSchedule, count = 5) =>
+    api.post<{ timezone: string; nextRuns: string[] }>('/jobs/schedule-preview', { ...schedule, count }),
+
   start: (jobId: string) =>
     api.post(`/jobs/${jobId}/start`),
 
@@ -153,7 +447,137 @@ export const jobsApi = {
   delete: (jobId: string) =>
     api.delete(`/jobs/${jobId}`),
 
+  // Server-Sent Event stream URLs (consumed with EventSource, see useJobEvents)
+  eventsUrl: (jobId: string) =>
+    `${api.defaults.baseURL}/jobs/${jobId}/events`,
+
+  sessionEventsUrl: (sessionId: string) =>
+    `${api.defaults.baseURL}/jobs/events?sessionId=${encodeURIComponent(sessionId)}`,
+
   // Add keywords from job to tracked
   trackKeywords: (jobId: string, resultIds: string[], sessionId?: string) =>
     api.post(`/jobs/${jobId}/track-keywords`, { resultIds, sessionId }),
 };
+
+// Cache admin
+export interface CacheNamespaceStats {
+  namespace: string;
+  memoryEntries: number;
+  storedEntries: number;
+  ttl: number;
+  staleTtl: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  hitRate: number | null;
+}
+
+export interface CacheStats {
+  store: string | null;
+  refreshing: number;
+  storeErrors: number;
+  totals: Pick<CacheNamespaceStats, 'memoryEntries' | 'storedEntries' | 'hits' | 'staleHits' | 'misses'>;
+  memory: { cacheBytes: number; heapUsedBytes: number };
+  namespaces: CacheNamespaceStats[];
+}
+
+export interface CacheFilter {
+  namespace?: string;
+  prefix?: string;
+  keyword?: string;
+  appId?: string;
+  country?: string;
+}
+
+export interface CacheEntryInfo {
+  key: string;
+  namespace: string;
+  keyword?: string;
+  appId?: string;
+  country?: string;
+  expiresAt: string;
+  staleUntil: string;
+  stale: boolean;
+  inMemory: boolean;
+}
+
+export const cacheApi = {
+  stats: () =>
+    api.get<CacheStats>('/cache/stats'),
+
+  keys: (filter: CacheFilter = {}, limit = 100) =>
+    api.get<{ total: number; entries: CacheEntryInfo[] }>('/cache/keys', { params: { ...filter, limit } }),
+
+  invalidate: (filter: CacheFilter, all = false) =>
+    api.delete<{ filter: CacheFilter; deleted: { memory: number; stored: number } }>('/cache', { params: { ...filter, all: all || undefined } }),
+};
+
+export type ChartType = 'free' | 'paid' | 'grossing';
+
+export interface ChartApp {
+  rank: number;
+  appId: string;
+  name: string;
+  developer: string | null;
+  icon: string | null;
+  price: number | null;
+  currency: string | null;
+}
+
+export interface ChartEntry extends ChartApp {
+  previousRank: number | null;
+  change: number | null;
+  isNew: boolean;
+}
+
+export interface ChartLatest {
+  chart: ChartType;
+  category: string;
+  country: string;
+  day: string | null;
+  previousDay: string | null;
+  entries: ChartEntry[];
+  movers: {
+    risers: ChartEntry[];
+    fallers: ChartEntry[];
+    newEntrants: ChartEntry[];
+    dropped: (ChartApp & { previousRank: number })[];
+  };
+}
+
+export interface ChartStatus {
+  enabled: boolean;
+  charts: ChartType[];
+  categories: string[];
+  collected: { categories: string[]; countries: string[]; limit: number };
+  lastDay: string | null;
+  collecting: boolean;
+}
+
+export interface AppChartTimeline {
+  appId: string;
+  country: string;
+  since: string;
+  charts: {
+    chart: ChartType;
+    category: string;
+    bestRank: number;
+    latestRank: number;
+    lastSeen: string;
+    points: { day: string; rank: number }[];
+  }[];
+}
+
+export const chartsApi = {
+  status: () =>
+    api.get<ChartStatus>('/charts'),
+
+  latest: (chart: ChartType, category: string, country = 'us') =>
+    api.get<ChartLatest>(`/charts/${chart}/${category}`, { params: { country } }),
+
+  history: (chart: ChartType, category: string, country = 'us', days = 30, limit = 100) =>
+    api.get<{ snapshots: { day: string; entries: ChartApp[] }[] }>(`/charts/${chart}/${category}/history`, { params: { country, days, limit } }),
+
+  collect: (targets: { charts?: ChartType[]; categories?: string[]; countries?: string[] } = {}) =>
+    api.post<{ day: string; collected: number; failed: { chart: ChartType; category: string; country: string; error: string }[] }>('/charts/collect', targets),
+};
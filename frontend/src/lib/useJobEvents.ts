@@ -0,0 +1,65 @@
+import { useEffect, useRef } from 'react';
+import type { JobEvent, JobEventType } from './api';
+
+const EVENT_TYPES: JobEventType[] = [
+  'job.status',
+  'cycle.started',
+  'cycle.finished',
+  'cycle.error',
+  'keyword.result',
+  'keyword.error',
+];
+
+const MAX_RECONNECT_DELAY_MS = 30000;
+
+/**
+ * Subscribe to a job event stream (Server-Sent Events).
+ * The browser reconnects dropped streams on its own and sends Last-Event-ID;
+ * if the stream is closed for good (e.g. server restart returned an error),
+ * we reopen it with backoff and pass the last seen ID so missed events are replayed.
+ */
+export function useJobEvents(url: string | null, onEvent: (event: JobEvent) => void) {
+  const onEventRef = useRef(onEvent);
+
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    if (!url) return;
+
+    let source: EventSource | null = null;
+    let lastEventId = 0;
+    let reconnectDelay = 1000;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let disposed = false;
+
+    const handleEvent = (message: MessageEvent) => {
+      const event = JSON.parse(message.data) as JobEvent;
+      lastEventId = Math.max(lastEventId, event.id);
+      reconnectDelay = 1000;
+      onEventRef.current(event);
+    };
+
+    const connect = () => {
+      const separator = url.includes('?') ? '&' : '?';
+      source = new EventSource(lastEventId ? `${url}${separator}lastEventId=${lastEventId}` : url);
+      EVENT_TYPES.forEach((type) => source?.addEventListener(type, handleEvent));
+
+      source.onerror = () => {
+        if (disposed || source?.readyState !== EventSource.CLOSED) return;
+        source.close();
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      disposed = true;
+      clearTimeout(reconnectTimer);
+      source?.close();
+    };
+  }, [url]);
+}
@@ -50,6 +50,12 @@ export function extractAppStoreId(url: string): string | null {
   return idMatch ? idMatch[1] : null;
 }
 
+export function extractDeveloperId(url: string): string | null {
+  // Developer pages look like https://apps.apple.com/us/developer/developer-name/id123456789
+  const idMatch = url.match(/\/developer\/(?:[^/]+\/)?id(\d+)/);
+  return idMatch ? idMatch[1] : null;
+}
+
 export function isValidAppStoreUrl(url: string): boolean {
   if (/^\d+$/.test(url.trim())) return true; // Plain ID
   return /apps\.apple\.com/.test(url) && /id\d+/.test(url);
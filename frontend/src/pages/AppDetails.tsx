@@ -7,6 +7,10 @@ import { Badge } from '../components/ui/Badge';
 import { useStore } from '../store/useStore';
 import { appApi, aiApi } from '../lib/api';
 import { formatNumber } from '../lib/utils';
+import { AppReviews } from '../components/apps/AppReviews';
+import { AppChangeTimeline } from '../components/apps/AppChangeTimeline';
+
+type AppDetailsTab = 'overview' | 'reviews' | 'changes';
 
 export default function AppDetails() {
   const { appId } = useParams<{ appId: string }>();
@@ -24,6 +28,7 @@ export default function AppDetails() {
   const [optimizing, setOptimizing] = useState(false);
   const [optimizedData, setOptimizedData] = useState<any>(null);
   const [copiedField, setCopiedField] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<AppDetailsTab>('overview');
 
   const { myApps, removeMyApp, trackedApps, addTrackedApp } = useStore();
   const isMyApp = myApps.some((a) => a.id === appId);
@@ -204,7 +209,16 @@ export default function AppDetails() {
             />
             <div className="flex-1">
               <h1 className="text-4xl font-bold mb-2">{app.trackName || app.name}</h1>
-              <p className="text-xl text-muted-foreground mb-4">{app.artistName}</p>
+              {app.developerId ? (
+                <button
+                  className="text-xl text-muted-foreground hover:text-primary mb-4 block"
+                  onClick={() => navigate(`/developers/${app.developerId}`)}
+                >
+                  {app.artistName || app.developer}
+                </button>
+              ) : (
+                <p className="text-xl text-muted-foreground mb-4">{app.artistName}</p>
+              )}
 
               <div className="flex flex-wrap items-center gap-4">
                 {app.averageUserRating && (
@@ -401,6 +415,28 @@ export default function AppDetails() {
             </Card>
           )}
 
+          {/* Tabs */}
+          <div className="flex gap-2 border-b border-stone-800">
+            {([['overview', 'Overview'], ['reviews', 'Reviews'], ['changes', 'Changes']] as const).map(([tab, label]) => (
+              <button
+                key={tab}
+                onClick={() => setActiveTab(tab)}
+                className={`px-4 py-2 -mb-px border-b-2 font-medium transition-colors ${
+                  activeTab === tab
+                    ? 'border-primary text-primary'
+                    : 'border-transparent text-muted-foreground hover:text-foreground'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {activeTab === 'reviews' && appId && <AppReviews appId={appId} />}
+          {activeTab === 'changes' && appId && <AppChangeTimeline appId={appId} />}
+
+          {activeTab === 'overview' && (
+          <>
           {/* App Information */}
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Description */}
@@ -503,6 +539,8 @@ export default function AppDetails() {
               )}
             </CardContent>
           </Card>
+          </>
+          )}
         </div>
       </div>
     </div>
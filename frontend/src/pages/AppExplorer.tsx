@@ -1,21 +1,300 @@
-import { Smartphone } from 'lucide-react'
-import { Card, CardContent } from '../components/ui/Card'
+import { useState, type ReactNode } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { ArrowDown, ArrowUp, BarChart3, Download, Sparkles, TrendingDown, TrendingUp } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/Card'
+import { Button } from '../components/ui/Button'
+import { Badge } from '../components/ui/Badge'
+import { chartsApi, type ChartApp, type ChartEntry, type ChartType } from '../lib/api'
 
+const CHART_LABELS: Record<ChartType, string> = {
+  free: 'Top Free',
+  paid: 'Top Paid',
+  grossing: 'Top Grossing',
+}
+
+const formatCategory = (category: string) =>
+  category === 'all' ? 'All Apps' : category.charAt(0).toUpperCase() + category.slice(1)
+
+function RankChange({ entry }: { entry: ChartEntry }) {
+  if (entry.isNew) return <Badge variant="warning">NEW</Badge>
+  if (!entry.change) return <span className="text-muted-foreground">—</span>
+  return entry.change > 0 ? (
+    <span className="flex items-center text-emerald-400 text-sm font-semibold">
+      <ArrowUp className="h-3 w-3 mr-0.5" />
+      {entry.change}
+    </span>
+  ) : (
+    <span className="flex items-center text-red-400 text-sm font-semibold">
+      <ArrowDown className="h-3 w-3 mr-0.5" />
+      {-entry.change}
+    </span>
+  )
+}
+
+function AppCell({ app }: { app: ChartApp }) {
+  return (
+    <div className="flex items-center gap-3 min-w-0">
+      {app.icon ? (
+        <img src={app.icon} alt="" className="h-9 w-9 rounded-lg shrink-0" />
+      ) : (
+        <div className="h-9 w-9 rounded-lg bg-secondary shrink-0" />
+      )}
+      <div className="min-w-0">
+        <p className="font-semibold truncate">{app.name}</p>
+        {app.developer && <p className="text-xs text-muted-foreground truncate">{app.developer}</p>}
+      </div>
+    </div>
+  )
+}
+
+function MoverList<T extends ChartApp>({ entries, empty, render }: { entries: T[]; empty: string; render: (app: T) => ReactNode }) {
+  const navigate = useNavigate()
+  if (entries.length === 0) return <p className="text-sm text-muted-foreground py-2">{empty}</p>
+  return (
+    <div className="space-y-2">
+      {entries.map((app) => (
+        <button
+          key={app.appId}
+          className="w-full flex items-center justify-between gap-3 p-2 rounded-lg hover:bg-secondary/50 text-left"
+          onClick={() => navigate(`/apps/${app.appId}`)}
+        >
+          <AppCell app={app} />
+          <div className="shrink-0 text-sm">{render(app)}</div>
+        </button>
+      ))}
+    </div>
+  )
+}
+
+/**
+ * Chart browser: the latest stored top charts with day-over-day movement, movers and new entrants
+ */
 export function AppExplorer() {
+  const navigate = useNavigate()
+  const queryClient = useQueryClient()
+  const [chart, setChart] = useState<ChartType>('free')
+  const [category, setCategory] = useState('all')
+  const [country, setCountry] = useState('us')
+
+  const { data: status } = useQuery({
+    queryKey: ['chart-status'],
+    queryFn: async () => (await chartsApi.status()).data,
+  })
+
+  const { data: latest, isLoading, error } = useQuery({
+    queryKey: ['chart-latest', chart, category, country],
+    queryFn: async () => (await chartsApi.latest(chart, category, country)).data,
+  })
+
+  const collect = useMutation({
+    mutationFn: async () => (await chartsApi.collect({ categories: [category], countries: [country] })).data,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['chart-status'] })
+      queryClient.invalidateQueries({ queryKey: ['chart-latest'] })
+    },
+  })
+
+  const countries = status?.collected.countries.includes(country)
+    ? status.collected.countries
+    : [country, ...(status?.collected.countries || [])]
+
   return (
     <div className="p-6">
-      <div className="max-w-7xl mx-auto">
-        <h1 className="text-4xl font-bold mb-2 animate-slide-up">
-          <span className="text-gradient">App Explorer</span>
-        </h1>
-        <p className="text-muted-foreground text-lg mb-8">Search and analyze apps</p>
-        <Card className="text-center py-16">
-          <CardContent>
-            <Smartphone className="h-20 w-20 mx-auto mb-4 text-primary opacity-50" />
-            <h3 className="text-2xl font-bold mb-2">Coming Soon</h3>
-            <p className="text-muted-foreground">App search and analysis features</p>
-          </CardContent>
-        </Card>
+      <div className="max-w-7xl mx-auto space-y-6">
+        <div className="flex items-start justify-between">
+          <div>
+            <h1 className="text-4xl font-bold mb-2 animate-slide-up">
+              <span className="text-gradient">App Explorer</span>
+            </h1>
+            <p className="text-muted-foreground text-lg">
+              Daily top charts with rank changes, movers and new entrants
+              {status?.lastDay && ` - last collected ${status.lastDay}`}
+            </p>
+          </div>
+          <Button variant="outline" onClick={() => collect.mutate()} disabled={collect.isPending}>
+            <Download className="h-4 w-4 mr-2" />
+            {collect.isPending ? 'Collecting...' : 'Collect Now'}
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3">
+          {(status?.charts || (Object.keys(CHART_LABELS) as ChartType[])).map((type) => (
+            <Button key={type} variant={chart === type ? 'primary' : 'outline'} onClick={() => setChart(type)}>
+              {CHART_LABELS[type]}
+            </Button>
+          ))}
+          <select
+            value={category}
+            onChange={(e) => setCategory(e.target.value)}
+            className="h-10 px-3 rounded-xl bg-card border border-stone-800 text-foreground"
+          >
+            {(status?.categories || ['all']).map((slug) => (
+              <option key={slug} value={slug}>
+                {formatCategory(slug)}
+                {status && !status.collected.categories.includes(slug) ? ' (not collected daily)' : ''}
+              </option>
+            ))}
+          </select>
+          <select
+            value={country}
+            onChange={(e) => setCountry(e.target.value)}
+            className="h-10 px-3 rounded-xl bg-card border border-stone-800 text-foreground"
+          >
+            {countries.map((code) => (
+              <option key={code} value={code}>
+                {code.toUpperCase()}
+              </option>
+            ))}
+          </select>
+          {collect.data && (
+            <span className="text-sm text-emerald-400">
+              Collected {collect.data.collected} charts{collect.data.failed.length > 0 && `, ${collect.data.failed.length} failed`}
+            </span>
+          )}
+          {collect.error && <span className="text-sm text-red-400">{(collect.error as Error).message}</span>}
+        </div>
+
+        {isLoading ? (
+          <p className="text-center py-12 text-muted-foreground">Loading chart...</p>
+        ) : error ? (
+          <p className="text-center py-12 text-red-400">Failed to load chart: {(error as Error).message}</p>
+        ) : !latest?.day ? (
+          <Card className="text-center py-16">
+            <CardContent>
+              <BarChart3 className="h-20 w-20 mx-auto mb-4 text-primary opacity-50" />
+              <h3 className="text-2xl font-bold mb-2">No snapshot yet</h3>
+              <p className="text-muted-foreground">
+                This chart has not been collected. Use Collect Now, or add the category to CHART_CATEGORIES for daily
+                snapshots.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            <Card className="lg:col-span-2 overflow-hidden">
+              <CardHeader>
+                <CardTitle>
+                  {CHART_LABELS[chart]} · {formatCategory(category)}
+                </CardTitle>
+                <CardDescription>
+                  {latest.day}
+                  {latest.previousDay ? ` compared with ${latest.previousDay}` : ' - movement shows from the second snapshot on'}
+                </CardDescription>
+              </CardHeader>
+              <div className="overflow-x-auto">
+                <table className="w-full text-left">
+                  <thead className="bg-secondary text-muted-foreground text-xs font-bold uppercase tracking-wider">
+                    <tr>
+                      <th className="px-6 py-3 w-16">#</th>
+                      <th className="px-6 py-3 w-20">Change</th>
+                      <th className="px-6 py-3">App</th>
+                      {chart !== 'free' && <th className="px-6 py-3 text-right">Price</th>}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-stone-800">
+                    {latest.entries.map((entry) => (
+                      <tr
+                        key={entry.rank}
+                        className="hover:bg-secondary/50 cursor-pointer"
+                        onClick={() => navigate(`/apps/${entry.appId}`)}
+                      >
+                        <td className="px-6 py-3 font-bold">{entry.rank}</td>
+                        <td className="px-6 py-3">
+                          <RankChange entry={entry} />
+                        </td>
+                        <td className="px-6 py-3">
+                          <AppCell app={entry} />
+                        </td>
+                        {chart !== 'free' && (
+                          <td className="px-6 py-3 text-right text-sm">
+                            {entry.price ? `${entry.price.toFixed(2)} ${entry.currency || ''}` : 'Free'}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </Card>
+
+            <div className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="h-5 w-5 text-emerald-400" />
+                    Biggest Risers
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <MoverList
+                    entries={latest.movers.risers}
+                    empty="No apps moved up."
+                    render={(app: ChartEntry) => (
+                      <span className="text-emerald-400 font-semibold">
+                        #{app.previousRank} → #{app.rank}
+                      </span>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Sparkles className="h-5 w-5 text-primary" />
+                    New Entrants
+                  </CardTitle>
+                  <CardDescription>Not in the previous snapshot</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <MoverList
+                    entries={latest.movers.newEntrants}
+                    empty="No new apps in this chart."
+                    render={(app: ChartEntry) => <Badge variant="warning">#{app.rank}</Badge>}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingDown className="h-5 w-5 text-red-400" />
+                    Biggest Fallers
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <MoverList
+                    entries={latest.movers.fallers}
+                    empty="No apps moved down."
+                    render={(app: ChartEntry) => (
+                      <span className="text-red-400 font-semibold">
+                        #{app.previousRank} → #{app.rank}
+                      </span>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
+              {latest.movers.dropped.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Dropped Out</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <MoverList
+                      entries={latest.movers.dropped}
+                      empty=""
+                      render={(app: ChartApp & { previousRank: number }) => (
+                        <span className="text-muted-foreground">was #{app.previousRank}</span>
+                      )}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -0,0 +1,233 @@
+import { useState } from 'react'
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query'
+import { Database, RefreshCw, Search, Trash2 } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/Card'
+import { Button } from '../components/ui/Button'
+import { Input } from '../components/ui/Input'
+import { Badge } from '../components/ui/Badge'
+import { cacheApi, type CacheFilter } from '../lib/api'
+
+const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${bytes} B`
+}
+
+const formatTtl = (seconds: number) => (seconds >= 3600 ? `${seconds / 3600}h` : `${seconds / 60}m`)
+
+// Drop empty fields so they are not sent as filters
+const cleanFilter = (filter: CacheFilter): CacheFilter =>
+  Object.fromEntries(Object.entries(filter).filter(([, value]) => value && value.trim())) as CacheFilter
+
+export function CacheAdmin() {
+  const queryClient = useQueryClient()
+  const [filter, setFilter] = useState<CacheFilter>({})
+  const [listedFilter, setListedFilter] = useState<CacheFilter | null>(null)
+  const [lastResult, setLastResult] = useState<string | null>(null)
+
+  const { data: stats, isLoading, refetch, isFetching } = useQuery({
+    queryKey: ['cache-stats'],
+    queryFn: async () => (await cacheApi.stats()).data,
+  })
+
+  const { data: keys } = useQuery({
+    queryKey: ['cache-keys', listedFilter],
+    queryFn: async () => (await cacheApi.keys(listedFilter!)).data,
+    enabled: !!listedFilter,
+  })
+
+  const invalidate = useMutation({
+    mutationFn: async ({ target, all }: { target: CacheFilter; all?: boolean }) =>
+      (await cacheApi.invalidate(target, all)).data,
+    onSuccess: (result) => {
+      setLastResult(`Removed ${result.deleted.memory} in-memory and ${result.deleted.stored} stored entries`)
+      queryClient.invalidateQueries({ queryKey: ['cache-stats'] })
+      queryClient.invalidateQueries({ queryKey: ['cache-keys'] })
+    },
+  })
+
+  const activeFilter = cleanFilter(filter)
+  const hasFilter = Object.keys(activeFilter).length > 0
+  const updateFilter = (field: keyof CacheFilter, value: string) => setFilter({ ...filter, [field]: value })
+
+  return (
+    <div className="p-8 space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">
+            <span className="text-gradient">Cache</span>
+          </h1>
+          <p className="text-muted-foreground">
+            Inspect cached App Store, keyword and AI data and purge entries when upstream data or scoring changes
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => refetch()} disabled={isFetching}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      {isLoading && <p className="text-muted-foreground">Loading cache stats...</p>}
+
+      {stats && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">In memory</p>
+                <p className="text-2xl font-bold">{stats.totals.memoryEntries}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Stored {stats.store ? '' : '(no store)'}</p>
+                <p className="text-2xl font-bold">{stats.totals.storedEntries}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Hits / stale / misses</p>
+                <p className="text-2xl font-bold">
+                  {stats.totals.hits} / {stats.totals.staleHits} / {stats.totals.misses}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Cache memory / heap</p>
+                <p className="text-2xl font-bold">
+                  {formatBytes(stats.memory.cacheBytes)} / {formatBytes(stats.memory.heapUsedBytes)}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card className="overflow-hidden">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Database className="h-5 w-5 text-primary" />
+                Namespaces
+              </CardTitle>
+              <CardDescription>
+                Lookups since the server started{stats.storeErrors > 0 && ` - ${stats.storeErrors} store errors`}
+              </CardDescription>
+            </CardHeader>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead className="bg-secondary text-muted-foreground text-xs font-bold uppercase tracking-wider">
+                  <tr>
+                    <th className="px-6 py-3">Namespace</th>
+                    <th className="px-6 py-3">TTL</th>
+                    <th className="px-6 py-3">Memory</th>
+                    <th className="px-6 py-3">Stored</th>
+                    <th className="px-6 py-3">Hits</th>
+                    <th className="px-6 py-3">Stale</th>
+                    <th className="px-6 py-3">Misses</th>
+                    <th className="px-6 py-3">Hit rate</th>
+                    <th className="px-6 py-3 text-right">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-stone-800">
+                  {stats.namespaces.map((ns) => (
+                    <tr key={ns.namespace} className="hover:bg-secondary/50 transition-colors">
+                      <td className="px-6 py-3 font-medium">{ns.namespace}</td>
+                      <td className="px-6 py-3 text-sm">
+                        {formatTtl(ns.ttl)}
+                        {ns.staleTtl > 0 && <Badge variant="secondary" className="ml-2">+{formatTtl(ns.staleTtl)} stale</Badge>}
+                      </td>
+                      <td className="px-6 py-3">{ns.memoryEntries}</td>
+                      <td className="px-6 py-3">{ns.storedEntries}</td>
+                      <td className="px-6 py-3">{ns.hits}</td>
+                      <td className="px-6 py-3">{ns.staleHits}</td>
+                      <td className="px-6 py-3">{ns.misses}</td>
+                      <td className="px-6 py-3">{ns.hitRate === null ? '-' : `${ns.hitRate}%`}</td>
+                      <td className="px-6 py-3 text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => invalidate.mutate({ target: { namespace: ns.namespace } })}
+                          disabled={invalidate.isPending}
+                        >
+                          <Trash2 className="h-4 w-4 mr-1" />
+                          Purge
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        </>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Targeted Invalidation</CardTitle>
+          <CardDescription>
+            Match entries by namespace, key prefix, keyword, app ID and/or country - every given field must match
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <select
+              value={filter.namespace || ''}
+              onChange={(e) => updateFilter('namespace', e.target.value)}
+              className="h-10 px-3 rounded-xl bg-card border border-stone-800 text-foreground"
+            >
+              <option value="">Any namespace</option>
+              {stats?.namespaces.map((ns) => (
+                <option key={ns.namespace} value={ns.namespace}>{ns.namespace}</option>
+              ))}
+            </select>
+            <Input placeholder="Key prefix" value={filter.prefix || ''} onChange={(e) => updateFilter('prefix', e.target.value)} />
+            <Input placeholder="Keyword" value={filter.keyword || ''} onChange={(e) => updateFilter('keyword', e.target.value)} />
+            <Input placeholder="App ID" value={filter.appId || ''} onChange={(e) => updateFilter('appId', e.target.value)} />
+            <Input placeholder="Country (e.g. us)" value={filter.country || ''} onChange={(e) => updateFilter('country', e.target.value)} />
+          </div>
+          <div className="flex flex-wrap gap-3">
+            <Button variant="outline" onClick={() => setListedFilter(activeFilter)}>
+              <Search className="h-4 w-4 mr-2" />
+              Show Entries
+            </Button>
+            <Button onClick={() => invalidate.mutate({ target: activeFilter })} disabled={!hasFilter || invalidate.isPending}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Invalidate Matching
+            </Button>
+            <Button
+              variant="ghost"
+              onClick={() => window.confirm('Clear the entire cache?') && invalidate.mutate({ target: {}, all: true })}
+              disabled={invalidate.isPending}
+            >
+              Clear Everything
+            </Button>
+          </div>
+          {lastResult && <p className="text-sm text-emerald-400">{lastResult}</p>}
+          {invalidate.error && (
+            <p className="text-sm text-red-400">Invalidation failed: {(invalidate.error as Error).message}</p>
+          )}
+
+          {keys && (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground">
+                {keys.total} matching entries{keys.total > keys.entries.length && `, showing the first ${keys.entries.length}`}
+              </p>
+              <div className="max-h-96 overflow-y-auto divide-y divide-stone-800 rounded-lg border border-stone-800">
+                {keys.entries.map((entry) => (
+                  <div key={entry.key} className="flex items-center justify-between gap-4 px-4 py-2 text-sm">
+                    <span className="font-mono truncate" title={entry.key}>{entry.key}</span>
+                    <div className="flex items-center gap-2 shrink-0">
+                      {entry.stale && <Badge variant="warning">stale</Badge>}
+                      {entry.inMemory && <Badge variant="outline">memory</Badge>}
+                      <span className="text-muted-foreground">expires {new Date(entry.expiresAt).toLocaleString()}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -5,6 +5,7 @@ import { useStore } from "../store/useStore";
 import { Card, CardContent } from "../components/ui/Card";
 import { Button } from "../components/ui/Button";
 import { Badge } from "../components/ui/Badge";
+import { DifficultyBreakdown } from "../components/keywords/DifficultyBreakdown";
 import { Loader2, TrendingUp, Star, AlertCircle } from "lucide-react";
 
 const Dashboard = () => {
@@ -125,12 +126,16 @@ const Dashboard = () => {
               <span className="text-5xl font-bold">{data.difficulty}</span>
               <span className="text-muted-foreground font-medium">/ 100</span>
             </div>
-            <div className="w-full bg-secondary h-2 rounded-full overflow-hidden">
-              <div
-                className="h-full rounded-full progress-bar-fill bg-gradient-to-r from-emerald-500 via-amber-500 to-red-500"
-                style={{ width: `${data.difficulty}%` }}
-              />
-            </div>
+            {data.difficultyFactors ? (
+              <DifficultyBreakdown factors={data.difficultyFactors} />
+            ) : (
+              <div className="w-full bg-secondary h-2 rounded-full overflow-hidden">
+                <div
+                  className="h-full rounded-full progress-bar-fill bg-gradient-to-r from-emerald-500 via-amber-500 to-red-500"
+                  style={{ width: `${data.difficulty}%` }}
+                />
+              </div>
+            )}
             <p className="mt-4 text-red-400 text-sm font-semibold flex items-center gap-2">
               <span className="inline-block w-4 h-4 text-center">◎</span>
               {data.competitorCount > 50 ? "High Competition" : "Moderate Competition"}
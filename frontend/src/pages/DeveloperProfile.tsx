@@ -0,0 +1,186 @@
+import { useState } from 'react'
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom'
+import { useQuery } from '@tanstack/react-query'
+import { ArrowLeft, Bookmark, ExternalLink, Plus, Star } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/Card'
+import { Button } from '../components/ui/Button'
+import { Badge } from '../components/ui/Badge'
+import { useStore } from '../store/useStore'
+import { developerApi } from '../lib/api'
+import { formatNumber } from '../lib/utils'
+
+/**
+ * Developer profile: every app a developer publishes, with bulk import into My Apps or the tracked apps watchlist
+ */
+export function DeveloperProfile() {
+  const { developerId } = useParams<{ developerId: string }>()
+  const [searchParams] = useSearchParams()
+  const country = searchParams.get('country') || 'us'
+  const navigate = useNavigate()
+  const { myApps, addMyApp, trackedApps, addTrackedApp } = useStore()
+  // Apps left out of bulk actions; everything is selected by default
+  const [deselected, setDeselected] = useState<Set<string>>(new Set())
+  const [message, setMessage] = useState<string | null>(null)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['developer-apps', developerId, country],
+    queryFn: async () => (await developerApi.getApps(developerId!, country)).data,
+    enabled: !!developerId,
+  })
+
+  const apps = data?.apps || []
+  const selected = apps.filter((app) => !deselected.has(String(app.id)))
+  const myAppIds = new Set(myApps.map((app) => app.id))
+  const trackedIds = new Set(trackedApps.map((app) => app.id))
+  const newForMyApps = selected.filter((app) => !myAppIds.has(String(app.id)))
+  const newForTracked = selected.filter((app) => !trackedIds.has(String(app.id)))
+
+  const toggle = (id: string) => {
+    const next = new Set(deselected)
+    if (next.has(id)) next.delete(id)
+    else next.add(id)
+    setDeselected(next)
+  }
+
+  const toggleAll = () => setDeselected(selected.length === apps.length ? new Set(apps.map((app) => String(app.id))) : new Set())
+
+  const handleAddToMyApps = () => {
+    for (const app of newForMyApps) {
+      addMyApp({
+        id: String(app.id),
+        name: app.name,
+        icon: app.icon,
+        developer: data?.developer.name,
+        addedAt: new Date().toISOString(),
+      })
+    }
+    setMessage(`Added ${newForMyApps.length} apps to My Apps`)
+  }
+
+  const handleAddToTracked = () => {
+    for (const app of newForTracked) {
+      addTrackedApp({
+        id: String(app.id),
+        name: app.name,
+        icon: app.icon,
+        developer: data?.developer.name,
+      })
+    }
+    setMessage(`Added ${newForTracked.length} apps to tracked apps`)
+  }
+
+  return (
+    <div className="p-8 space-y-6">
+      <Button variant="ghost" onClick={() => navigate(-1)}>
+        <ArrowLeft className="h-4 w-4 mr-2" />
+        Back
+      </Button>
+
+      {isLoading ? (
+        <p className="text-center py-12 text-muted-foreground">Loading developer apps...</p>
+      ) : error || !data ? (
+        <Card className="border-red-500/50 bg-red-500/5">
+          <CardContent className="pt-6 text-center">
+            <h2 className="text-xl font-bold mb-2 text-red-400">Failed to Load Developer</h2>
+            <p className="text-muted-foreground">{(error as Error)?.message || 'Developer not found'}</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-start justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold mb-2">
+                <span className="text-gradient">{data.developer.name}</span>
+              </h1>
+              <p className="text-muted-foreground flex items-center gap-2">
+                {data.count} apps in the {country.toUpperCase()} App Store
+                {data.developer.url && (
+                  <a href={data.developer.url} target="_blank" rel="noreferrer" className="text-primary hover:underline inline-flex items-center">
+                    App Store page <ExternalLink className="h-3 w-3 ml-1" />
+                  </a>
+                )}
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              <Button onClick={handleAddToMyApps} disabled={newForMyApps.length === 0}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add {newForMyApps.length} to My Apps
+              </Button>
+              <Button variant="outline" onClick={handleAddToTracked} disabled={newForTracked.length === 0}>
+                <Bookmark className="h-4 w-4 mr-2" />
+                Track {newForTracked.length} Apps
+              </Button>
+            </div>
+          </div>
+
+          {message && <p className="text-sm text-emerald-400">{message}</p>}
+
+          <Card className="overflow-hidden">
+            <CardHeader>
+              <CardTitle>Apps</CardTitle>
+              <CardDescription>
+                {selected.length} of {apps.length} selected for bulk actions - most rated first
+              </CardDescription>
+            </CardHeader>
+            <div className="overflow-x-auto">
+              <table className="w-full text-left">
+                <thead className="bg-secondary text-muted-foreground text-xs font-bold uppercase tracking-wider">
+                  <tr>
+                    <th className="px-6 py-3 w-12">
+                      <input type="checkbox" checked={selected.length === apps.length} onChange={toggleAll} />
+                    </th>
+                    <th className="px-6 py-3">App</th>
+                    <th className="px-6 py-3">Category</th>
+                    <th className="px-6 py-3">Rating</th>
+                    <th className="px-6 py-3">Price</th>
+                    <th className="px-6 py-3">Updated</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-stone-800">
+                  {apps.map((app) => {
+                    const id = String(app.id)
+                    return (
+                      <tr key={id} className="hover:bg-secondary/50">
+                        <td className="px-6 py-3">
+                          <input type="checkbox" checked={!deselected.has(id)} onChange={() => toggle(id)} />
+                        </td>
+                        <td className="px-6 py-3">
+                          <button className="flex items-center gap-3 text-left" onClick={() => navigate(`/apps/${id}`)}>
+                            <img src={app.icon} alt="" className="h-10 w-10 rounded-lg shrink-0" />
+                            <div>
+                              <p className="font-semibold hover:text-primary">{app.name}</p>
+                              <div className="flex gap-1 mt-1">
+                                {myAppIds.has(id) && <Badge variant="success">My App</Badge>}
+                                {trackedIds.has(id) && <Badge variant="secondary">Tracked</Badge>}
+                              </div>
+                            </div>
+                          </button>
+                        </td>
+                        <td className="px-6 py-3 text-sm">{app.category}</td>
+                        <td className="px-6 py-3 text-sm">
+                          {app.rating ? (
+                            <span className="flex items-center gap-1">
+                              <Star className="h-4 w-4 text-primary fill-current" />
+                              {app.rating.toFixed(1)}
+                              <span className="text-muted-foreground">({formatNumber(app.ratingCount || 0)})</span>
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">No ratings</span>
+                          )}
+                        </td>
+                        <td className="px-6 py-3 text-sm">{app.price ? `${app.price.toFixed(2)} ${app.currency}` : 'Free'}</td>
+                        <td className="px-6 py-3 text-sm text-muted-foreground">
+                          {new Date(app.currentVersionReleaseDate || app.releaseDate).toLocaleDateString()}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -1,7 +1,9 @@
-import { useState, useEffect } from 'react';
-import { useQuery, useMutation } from '@tanstack/react-query';
-import { jobsApi } from '../lib/api';
-import { Plus, Play, Square, Trash2, Clock, TrendingUp, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
+import { useState, useEffect, useCallback, Fragment } from 'react';
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { jobsApi, type JobConfig, type JobEvent, type JobResultsQuery, type JobStopReason, type JobStrategy, type JobTemplate } from '../lib/api';
+import { extractAppStoreId } from '../lib/utils';
+import { useJobEvents } from '../lib/useJobEvents';
+import { Plus, Play, Square, Trash2, Clock, TrendingUp, CheckCircle, AlertCircle, Loader2, Download, Pencil, Copy, BookmarkPlus } from 'lucide-react';
 import { Button } from '../components/ui/Button';
 import { Input } from '../components/ui/Input';
 import { Card } from '../components/ui/Card';
@@ -27,8 +29,23 @@ interface Job {
   currentCycle: number;
   totalKeywords: number;
   country: string;
+  countries: string[];
   strategy: string;
   seedCategory?: string;
+  scheduleType: 'interval' | 'cron';
+  cronExpression?: string;
+  timezone: string;
+  windowStart?: string;
+  windowEnd?: string;
+  nextRunAt?: string;
+  goalKeywordCount?: number | null;
+  goalMinOpportunityScore?: number | null;
+  goalMaxDifficulty?: number | null;
+  goalMinPopularity?: number | null;
+  maxIdleCycles?: number | null;
+  maxErrorRate?: number | null;
+  stopReason?: JobStopReason | null;
+  lastError?: string | null;
   createdAt: string;
   startedAt?: string;
   completedAt?: string;
@@ -36,10 +53,154 @@ interface Job {
   _count: { results: number };
 }
 
+interface JobResult {
+  id: string;
+  keyword: string;
+  cycleNumber: number;
+  status: 'success' | 'error' | 'skipped';
+  popularity?: number | null;
+  difficulty?: number | null;
+  opportunityScore?: number | null;
+  competitorCount?: number | null;
+  sourceAppId?: string | null;
+  sourceAppName?: string | null;
+  country: string;
+  isTracked: boolean;
+}
+
+interface JobResultsPage {
+  results: JobResult[];
+  total: number;
+  nextCursor: string | null;
+}
+
+interface JobDetails extends Job {
+  sourceApps: { appId: string; name: string }[];
+}
+
+// Apply a streamed event to a job's summary fields
+const applyJobEvent = <T extends Job>(job: T, event: JobEvent): T => {
+  const { data } = event;
+  switch (event.type) {
+    case 'job.status':
+      return {
+        ...job,
+        status: (data.status as Job['status']) || job.status,
+        startedAt: data.startedAt || job.startedAt,
+        completedAt: data.completedAt || job.completedAt,
+        stopReason: data.status === 'running' ? null : data.stopReason || job.stopReason,
+        lastError: data.status === 'running' ? null : data.error || job.lastError,
+      };
+    case 'cycle.finished':
+      return {
+        ...job,
+        currentCycle: data.currentCycle ?? job.currentCycle,
+        totalKeywords: data.totalKeywords ?? job.totalKeywords,
+        lastRunAt: data.lastRunAt || job.lastRunAt,
+      };
+    case 'keyword.result':
+    case 'keyword.error':
+      return { ...job, _count: { results: (job._count?.results || 0) + 1 } };
+    default:
+      return job;
+  }
+};
+
+const defaultFormData = {
+  name: '',
+  searchesPerBatch: 1,
+  intervalMinutes: 15,
+  totalCycles: 10,
+  countries: ['us'],
+  strategy: 'random' as JobStrategy,
+  seedCategory: '',
+  snowballMaxDepth: 3,
+  snowballBranching: 5,
+  seedApps: '',
+  scheduleType: 'interval' as 'interval' | 'cron',
+  cronExpression: '',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  windowStart: '',
+  windowEnd: '',
+  // Stop conditions are kept as text so empty means "not set"
+  goalKeywordCount: '',
+  goalMinOpportunityScore: '',
+  goalMaxDifficulty: '',
+  goalMinPopularity: '',
+  maxIdleCycles: '',
+  maxErrorRate: '',
+  notes: '',
+};
+
+// Storefronts offered in the job form
+const jobCountries = [
+  { code: 'us', name: 'United States' },
+  { code: 'gb', name: 'United Kingdom' },
+  { code: 'de', name: 'Germany' },
+  { code: 'fr', name: 'France' },
+  { code: 'jp', name: 'Japan' },
+  { code: 'in', name: 'India' },
+];
+
+// "3" or "3–10" for an estimate range
+const formatRange = (range: { min: number; max: number }, format: (value: number) => string = String) =>
+  range.min === range.max ? format(range.min) : `${format(range.min)}–${format(range.max)}`;
+
+const formatDuration = (seconds: number) =>
+  seconds < 90 ? `${seconds}s` : `${Math.round(seconds / 60)} min`;
+
+// Convert the stop condition inputs to numbers, or null when left empty
+const toStopConditions = (form: typeof defaultFormData) => {
+  const toNumber = (value: string) => (value === '' ? null : Number(value));
+  return {
+    goalKeywordCount: toNumber(form.goalKeywordCount),
+    goalMinOpportunityScore: toNumber(form.goalMinOpportunityScore),
+    goalMaxDifficulty: toNumber(form.goalMaxDifficulty),
+    goalMinPopularity: toNumber(form.goalMinPopularity),
+    maxIdleCycles: toNumber(form.maxIdleCycles),
+    maxErrorRate: toNumber(form.maxErrorRate),
+  };
+};
+
+const stopReasonLabels: Record<JobStopReason, string> = {
+  cycles_completed: 'All cycles completed',
+  goal_reached: 'Goal reached',
+  no_new_keywords: 'No new keywords found',
+  error_rate: 'Error rate too high',
+};
+
+// Fill the form from a saved job or template configuration
+const toFormData = (config: JobConfig & { name?: string }): typeof defaultFormData => ({
+  name: config.name ?? '',
+  searchesPerBatch: config.searchesPerBatch ?? defaultFormData.searchesPerBatch,
+  intervalMinutes: config.intervalMinutes ?? defaultFormData.intervalMinutes,
+  totalCycles: config.totalCycles ?? defaultFormData.totalCycles,
+  countries: config.countries?.length ? config.countries : [config.country ?? 'us'],
+  strategy: config.strategy ?? defaultFormData.strategy,
+  seedCategory: config.seedCategory ?? '',
+  snowballMaxDepth: config.snowballMaxDepth ?? defaultFormData.snowballMaxDepth,
+  snowballBranching: config.snowballBranching ?? defaultFormData.snowballBranching,
+  seedApps: (config.seedAppIds || []).join('\n'),
+  scheduleType: config.scheduleType ?? defaultFormData.scheduleType,
+  cronExpression: config.cronExpression ?? '',
+  timezone: config.timezone ?? defaultFormData.timezone,
+  windowStart: config.windowStart ?? '',
+  windowEnd: config.windowEnd ?? '',
+  goalKeywordCount: config.goalKeywordCount?.toString() ?? '',
+  goalMinOpportunityScore: config.goalMinOpportunityScore?.toString() ?? '',
+  goalMaxDifficulty: config.goalMaxDifficulty?.toString() ?? '',
+  goalMinPopularity: config.goalMinPopularity?.toString() ?? '',
+  maxIdleCycles: config.maxIdleCycles?.toString() ?? '',
+  maxErrorRate: config.maxErrorRate?.toString() ?? '',
+  notes: config.notes ?? '',
+});
+
 export function KeywordJobs() {
   const [sessionId, setSessionId] = useState<string>('');
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [editingJobId, setEditingJobId] = useState<string | null>(null);
+  const [selectedTemplateId, setSelectedTemplateId] = useState<string>('');
 
   // Initialize session ID
   useEffect(() => {
@@ -47,42 +208,164 @@ export function KeywordJobs() {
   }, []);
 
   // Form state
-  const [formData, setFormData] = useState({
-    name: '',
-    searchesPerBatch: 1,
-    intervalMinutes: 15,
-    totalCycles: 10,
-    country: 'us',
-    strategy: 'random' as 'random' | 'category' | 'trending',
-    seedCategory: '',
-    notes: '',
-  });
+  const [formData, setFormData] = useState(defaultFormData);
 
   // Fetch jobs
   const { data: jobs, isLoading, refetch } = useQuery({
     queryKey: ['jobs', sessionId],
     queryFn: () => jobsApi.list(sessionId).then(res => res.data),
-    refetchInterval: 5000, // Poll every 5 seconds for running jobs
     enabled: !!sessionId, // Only run query when sessionId is available
   });
 
-  // Create job mutation
-  const createJobMutation = useMutation({
-    mutationFn: () => jobsApi.create({ ...formData, sessionId }),
+  // Saved job templates
+  const { data: templates } = useQuery<JobTemplate[]>({
+    queryKey: ['job-templates', sessionId],
+    queryFn: () => jobsApi.templates(sessionId).then(res => res.data),
+    enabled: !!sessionId,
+  });
+
+  // Live progress for every job in this session
+  const queryClient = useQueryClient();
+  const handleJobEvent = useCallback((event: JobEvent) => {
+    const current = queryClient.getQueryData<Job[]>(['jobs', sessionId]);
+    if (!current) return;
+
+    if (!current.some((job) => job.id === event.jobId)) {
+      // A job created elsewhere (e.g. another tab) - reload the list
+      queryClient.invalidateQueries({ queryKey: ['jobs', sessionId] });
+      return;
+    }
+
+    queryClient.setQueryData<Job[]>(['jobs', sessionId], event.type === 'job.status' && event.data.status === 'deleted'
+      ? current.filter((job) => job.id !== event.jobId)
+      : current.map((job) => (job.id === event.jobId ? applyJobEvent(job, event) : job)));
+  }, [queryClient, sessionId]);
+
+  useJobEvents(sessionId ? jobsApi.sessionEventsUrl(sessionId) : null, handleJobEvent);
+
+  // Preview upcoming run times for the schedule being edited
+  const schedule = {
+    scheduleType: formData.scheduleType,
+    intervalMinutes: formData.intervalMinutes,
+    cronExpression: formData.cronExpression,
+    timezone: formData.timezone,
+    windowStart: formData.windowStart,
+    windowEnd: formData.windowEnd,
+  };
+  const { data: schedulePreview, error: schedulePreviewError } = useQuery({
+    queryKey: ['job-schedule-preview', schedule],
+    queryFn: () => jobsApi.previewSchedule(schedule).then(res => res.data),
+    enabled: showCreateForm && (formData.scheduleType === 'interval' || !!formData.cronExpression.trim()),
+    retry: false,
+  });
+
+  const getSchedulePreviewError = () => {
+    const data = (schedulePreviewError as { response?: { data?: { error?: string; errors?: { msg: string }[] } } } | null)?.response?.data;
+    return data?.errors?.[0]?.msg || data?.error || 'Invalid schedule';
+  };
+
+  // Competitor app IDs or App Store URLs, one per line or comma-separated
+  const parseSeedAppIds = (text: string) =>
+    text
+      .split(/[\s,]+/)
+      .map((entry) => extractAppStoreId(entry))
+      .filter((id): id is string => !!id);
+
+  // Request body for creating or updating a job from the form
+  const { seedApps, ...formFields } = formData;
+  const jobPayload = {
+    ...formFields,
+    seedAppIds: formData.strategy === 'competitor' ? parseSeedAppIds(seedApps) : undefined,
+    ...toStopConditions(formData),
+  };
+
+  // Pre-flight estimate of AI calls, App Store requests and run time
+  const estimateInput = { ...jobPayload, name: undefined, notes: undefined };
+  const { data: estimate } = useQuery({
+    queryKey: ['job-estimate', estimateInput],
+    queryFn: () => jobsApi.estimate(estimateInput).then(res => res.data),
+    enabled: showCreateForm &&
+      (formData.scheduleType === 'interval' || !!formData.cronExpression.trim()) &&
+      (formData.strategy !== 'competitor' || (jobPayload.seedAppIds?.length || 0) > 0),
+    retry: false,
+  });
+
+  // Keep at least one storefront selected; the first one stays primary
+  const toggleCountry = (code: string) => {
+    const { countries } = formData;
+    if (countries.includes(code)) {
+      if (countries.length > 1) setFormData({ ...formData, countries: countries.filter((c) => c !== code) });
+    } else {
+      setFormData({ ...formData, countries: [...countries, code] });
+    }
+  };
+
+  const closeForm = () => {
+    setShowCreateForm(false);
+    setEditingJobId(null);
+    setSelectedTemplateId('');
+    setFormData(defaultFormData);
+  };
+
+  // Create job mutation (or save changes when editing a job)
+  const saveJobMutation = useMutation({
+    mutationFn: () => editingJobId
+      ? jobsApi.update(editingJobId, jobPayload)
+      : jobsApi.create({ ...jobPayload, sessionId }),
     onSuccess: () => {
-      setShowCreateForm(false);
-      setFormData({
-        name: '',
-        searchesPerBatch: 1,
-        intervalMinutes: 15,
-        totalCycles: 10,
-        country: 'us',
-        strategy: 'random',
-        seedCategory: '',
-        notes: '',
-      });
+      closeForm();
       refetch();
     },
+    onError: (error: { response?: { data?: { error?: string; errors?: { msg: string }[] } }; message: string }) => {
+      const data = error.response?.data;
+      alert('❌ Failed to save job: ' + (data?.errors?.[0]?.msg || data?.error || error.message));
+    },
+  });
+
+  // Open the form pre-filled with a pending or paused job's configuration
+  const startEditing = async (jobId: string) => {
+    const { data } = await jobsApi.get(jobId, false);
+    setFormData(toFormData(data));
+    setEditingJobId(jobId);
+    setSelectedTemplateId('');
+    setShowCreateForm(true);
+  };
+
+  const applyTemplate = (templateId: string) => {
+    setSelectedTemplateId(templateId);
+    const template = templates?.find((t) => t.id === templateId);
+    setFormData(template ? { ...toFormData(template), name: '' } : defaultFormData);
+  };
+
+  // Clone job mutation
+  const cloneJobMutation = useMutation({
+    mutationFn: (jobId: string) => jobsApi.clone(jobId, sessionId),
+    onSuccess: () => refetch(),
+  });
+
+  // Save job as template mutation
+  const saveTemplateMutation = useMutation({
+    mutationFn: ({ jobId, name }: { jobId: string; name: string }) => jobsApi.saveAsTemplate(jobId, name, sessionId),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['job-templates', sessionId] });
+      alert(`✅ Saved template "${response.data.name}"`);
+    },
+  });
+
+  const handleSaveAsTemplate = (job: Job) => {
+    const name = prompt('Template name', job.name);
+    if (name?.trim()) {
+      saveTemplateMutation.mutate({ jobId: job.id, name: name.trim() });
+    }
+  };
+
+  // Delete template mutation
+  const deleteTemplateMutation = useMutation({
+    mutationFn: (templateId: string) => jobsApi.deleteTemplate(templateId),
+    onSuccess: () => {
+      applyTemplate('');
+      queryClient.invalidateQueries({ queryKey: ['job-templates', sessionId] });
+    },
   });
 
   // Start job mutation
@@ -106,9 +389,9 @@ export function KeywordJobs() {
     },
   });
 
-  const handleCreateJob = (e: React.FormEvent) => {
+  const handleSaveJob = (e: React.FormEvent) => {
     e.preventDefault();
-    createJobMutation.mutate();
+    saveJobMutation.mutate();
   };
 
   const getStatusBadge = (status: string) => {
@@ -144,7 +427,7 @@ export function KeywordJobs() {
             Create automated keyword discovery jobs that run continuously
           </p>
         </div>
-        <Button onClick={() => setShowCreateForm(!showCreateForm)}>
+        <Button onClick={() => (showCreateForm ? closeForm() : setShowCreateForm(true))}>
           <Plus className="w-4 h-4 mr-2" />
           {showCreateForm ? 'Cancel' : 'New Job'}
         </Button>
@@ -153,8 +436,40 @@ export function KeywordJobs() {
       {/* Create Job Form */}
       {showCreateForm && (
         <Card className="p-6 border-primary/30">
-          <h2 className="text-lg font-semibold mb-4">Create New Keyword Search Job</h2>
-          <form onSubmit={handleCreateJob} className="space-y-4">
+          <h2 className="text-lg font-semibold mb-4">
+            {editingJobId ? 'Edit Keyword Search Job' : 'Create New Keyword Search Job'}
+          </h2>
+          <form onSubmit={handleSaveJob} className="space-y-4">
+            {!editingJobId && templates && templates.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium mb-2">Start from Template</label>
+                <div className="flex gap-2">
+                  <select
+                    className="w-full px-3 py-2 bg-card border border-stone-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-foreground"
+                    value={selectedTemplateId}
+                    onChange={(e) => applyTemplate(e.target.value)}
+                  >
+                    <option value="">No template</option>
+                    {templates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name} ({template.strategy}, {template.countries?.join(', ').toUpperCase()})
+                      </option>
+                    ))}
+                  </select>
+                  {selectedTemplateId && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => deleteTemplateMutation.mutate(selectedTemplateId)}
+                      disabled={deleteTemplateMutation.isPending}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-500" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label className="block text-sm font-medium mb-2">Job Name *</label>
@@ -172,14 +487,70 @@ export function KeywordJobs() {
                 <select
                   className="w-full px-3 py-2 bg-card border border-stone-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-foreground"
                   value={formData.strategy}
-                  onChange={(e) => setFormData({ ...formData, strategy: e.target.value as any })}
+                  onChange={(e) => setFormData({ ...formData, strategy: e.target.value as JobStrategy })}
                 >
                   <option value="random">Random Categories (Diverse)</option>
                   <option value="category">Specific Category</option>
                   <option value="trending">Trending Categories</option>
+                  <option value="snowball">Snowball (Autocomplete, no AI)</option>
+                  <option value="competitor">Competitor Mining (from App IDs)</option>
                 </select>
               </div>
 
+              {formData.strategy === 'snowball' && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Seed Keyword</label>
+                    <Input
+                      type="text"
+                      value={formData.seedCategory}
+                      onChange={(e) => setFormData({ ...formData, seedCategory: e.target.value })}
+                      placeholder="e.g., habit tracker"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">Used when the keyword bank has nothing left to expand</p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Max Depth</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="10"
+                      value={formData.snowballMaxDepth}
+                      onChange={(e) => setFormData({ ...formData, snowballMaxDepth: parseInt(e.target.value) || 3 })}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">How many autocomplete hops away from a root keyword (1-10)</p>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm font-medium mb-2">Branching</label>
+                    <Input
+                      type="number"
+                      min="1"
+                      max="20"
+                      value={formData.snowballBranching}
+                      onChange={(e) => setFormData({ ...formData, snowballBranching: parseInt(e.target.value) || 5 })}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">Max new keywords taken from each expanded keyword (1-20)</p>
+                  </div>
+                </>
+              )}
+
+              {formData.strategy === 'competitor' && (
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium mb-2">Competitor Apps *</label>
+                  <textarea
+                    className="w-full px-3 py-2 bg-card border border-stone-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary min-h-[80px] text-foreground placeholder:text-stone-500"
+                    value={formData.seedApps}
+                    onChange={(e) => setFormData({ ...formData, seedApps: e.target.value })}
+                    placeholder={'App IDs or App Store URLs, one per line\ne.g., 284882215'}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {parseSeedAppIds(formData.seedApps).length} app(s) recognized. Keywords are mined from their names, descriptions and search suggestions.
+                  </p>
+                </div>
+              )}
+
               {formData.strategy === 'category' && (
                 <div>
                   <label className="block text-sm font-medium mb-2">Seed Category</label>
@@ -205,15 +576,69 @@ export function KeywordJobs() {
               </div>
 
               <div>
-                <label className="block text-sm font-medium mb-2">Interval (minutes)</label>
+                <label className="block text-sm font-medium mb-2">Schedule</label>
+                <select
+                  className="w-full px-3 py-2 bg-card border border-stone-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-foreground"
+                  value={formData.scheduleType}
+                  onChange={(e) => setFormData({ ...formData, scheduleType: e.target.value as 'interval' | 'cron' })}
+                >
+                  <option value="interval">Fixed Interval</option>
+                  <option value="cron">Cron Expression</option>
+                </select>
+              </div>
+
+              {formData.scheduleType === 'interval' ? (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Interval (minutes)</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="1440"
+                    value={formData.intervalMinutes}
+                    onChange={(e) => setFormData({ ...formData, intervalMinutes: parseInt(e.target.value) || 15 })}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">Minutes between each search cycle</p>
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium mb-2">Cron Expression</label>
+                  <Input
+                    type="text"
+                    value={formData.cronExpression}
+                    onChange={(e) => setFormData({ ...formData, cronExpression: e.target.value })}
+                    placeholder="e.g., 0 2 * * 1-5"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">minute hour day month weekday (e.g. weekdays at 02:00)</p>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Timezone</label>
                 <Input
-                  type="number"
-                  min="1"
-                  max="1440"
-                  value={formData.intervalMinutes}
-                  onChange={(e) => setFormData({ ...formData, intervalMinutes: parseInt(e.target.value) || 15 })}
+                  type="text"
+                  value={formData.timezone}
+                  onChange={(e) => setFormData({ ...formData, timezone: e.target.value })}
+                  placeholder="e.g., UTC or Europe/Berlin"
                 />
-                <p className="text-xs text-muted-foreground mt-1">Minutes between each search cycle</p>
+                <p className="text-xs text-muted-foreground mt-1">Used for the cron expression and active window</p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium mb-2">Active Window (optional)</label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    type="time"
+                    value={formData.windowStart}
+                    onChange={(e) => setFormData({ ...formData, windowStart: e.target.value })}
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    type="time"
+                    value={formData.windowEnd}
+                    onChange={(e) => setFormData({ ...formData, windowEnd: e.target.value })}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">Cycles only run between these local times</p>
               </div>
 
               <div>
@@ -229,22 +654,161 @@ export function KeywordJobs() {
               </div>
 
               <div>
-                <label className="block text-sm font-medium mb-2">Country</label>
-                <select
-                  className="w-full px-3 py-2 bg-card border border-stone-700 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary text-foreground"
-                  value={formData.country}
-                  onChange={(e) => setFormData({ ...formData, country: e.target.value })}
-                >
-                  <option value="us">United States</option>
-                  <option value="gb">United Kingdom</option>
-                  <option value="de">Germany</option>
-                  <option value="fr">France</option>
-                  <option value="jp">Japan</option>
-                  <option value="in">India</option>
-                </select>
+                <label className="block text-sm font-medium mb-2">Countries</label>
+                <div className="flex flex-wrap gap-2">
+                  {jobCountries.map(({ code, name }) => (
+                    <button
+                      key={code}
+                      type="button"
+                      title={name}
+                      onClick={() => toggleCountry(code)}
+                      className={`px-3 py-1.5 rounded-lg border text-sm transition-colors ${
+                        formData.countries.includes(code)
+                          ? 'border-primary bg-primary/20 text-foreground'
+                          : 'border-stone-700 text-muted-foreground hover:bg-accent'
+                      }`}
+                    >
+                      {code.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Each keyword is analyzed in every selected store. {formData.countries[0]?.toUpperCase()} (first selected) is used to generate and deduplicate keywords.
+                </p>
+              </div>
+            </div>
+
+            {/* Stop Conditions */}
+            <div className="space-y-3">
+              <div>
+                <p className="text-sm font-medium">Stop Conditions (optional)</p>
+                <p className="text-xs text-muted-foreground">Checked after every cycle; the job also stops after its total cycles</p>
               </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Goal: Keywords Found</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={formData.goalKeywordCount}
+                    onChange={(e) => setFormData({ ...formData, goalKeywordCount: e.target.value })}
+                    placeholder="e.g., 25"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">With Opportunity ≥</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.goalMinOpportunityScore}
+                    onChange={(e) => setFormData({ ...formData, goalMinOpportunityScore: e.target.value })}
+                    placeholder="e.g., 70"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">With Difficulty ≤</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.goalMaxDifficulty}
+                    onChange={(e) => setFormData({ ...formData, goalMaxDifficulty: e.target.value })}
+                    placeholder="e.g., 30"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">With Popularity ≥</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.goalMinPopularity}
+                    onChange={(e) => setFormData({ ...formData, goalMinPopularity: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Cycles Without New Keywords</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    max="100"
+                    value={formData.maxIdleCycles}
+                    onChange={(e) => setFormData({ ...formData, maxIdleCycles: e.target.value })}
+                    placeholder="e.g., 3"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Max Error Rate (%)</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={formData.maxErrorRate}
+                    onChange={(e) => setFormData({ ...formData, maxErrorRate: e.target.value })}
+                    placeholder="e.g., 50"
+                  />
+                </div>
+              </div>
+            </div>
+
+            {/* Schedule Preview */}
+            <div className="p-4 bg-accent/30 rounded-lg">
+              <p className="text-sm font-medium mb-2">Next Runs</p>
+              {schedulePreviewError ? (
+                <p className="text-sm text-red-400">{getSchedulePreviewError()}</p>
+              ) : schedulePreview ? (
+                <ul className="text-sm text-muted-foreground space-y-1">
+                  {schedulePreview.nextRuns.map((run) => (
+                    <li key={run}>
+                      {new Date(run).toLocaleString('en-US', { timeZone: schedulePreview.timezone, dateStyle: 'medium', timeStyle: 'short' })}
+                      {' '}({schedulePreview.timezone})
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">Enter a schedule to preview run times</p>
+              )}
+              {formData.scheduleType === 'interval' && (
+                <p className="text-xs text-muted-foreground mt-2">Interval runs shift later by the time each cycle takes</p>
+              )}
             </div>
 
+            {/* Usage Estimate */}
+            {estimate && (
+              <div className="p-4 bg-accent/30 rounded-lg">
+                <p className="text-sm font-medium mb-2">Estimated Usage ({estimate.total.keywords} keywords
+                  {estimate.total.analyses !== estimate.total.keywords && `, ${estimate.total.analyses} analyses across stores`})
+                </p>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <p className="text-muted-foreground">Gemini Calls</p>
+                    <p className="font-medium">{formatRange(estimate.total.geminiCalls)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">iTunes Requests</p>
+                    <p className="font-medium">
+                      {formatRange({
+                        min: estimate.total.itunesSearches.min + estimate.total.itunesLookups.min,
+                        max: estimate.total.itunesSearches.max + estimate.total.itunesLookups.max,
+                      })}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Autocomplete Requests</p>
+                    <p className="font-medium">{formatRange(estimate.total.searchHints)}</p>
+                  </div>
+                  <div>
+                    <p className="text-muted-foreground">Per Cycle</p>
+                    <p className="font-medium">{formatRange(estimate.cycleDurationSeconds, formatDuration)}</p>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Finishes around {new Date(estimate.estimatedEndAt.max).toLocaleString()} if every cycle runs. Stop conditions can end it sooner.
+                </p>
+              </div>
+            )}
+
             <div>
               <label className="block text-sm font-medium mb-2">Notes (optional)</label>
               <textarea
@@ -256,10 +820,12 @@ export function KeywordJobs() {
             </div>
 
             <div className="flex gap-3">
-              <Button type="submit" disabled={createJobMutation.isPending}>
-                {createJobMutation.isPending ? 'Creating...' : 'Create Job'}
+              <Button type="submit" disabled={saveJobMutation.isPending}>
+                {saveJobMutation.isPending
+                  ? (editingJobId ? 'Saving...' : 'Creating...')
+                  : (editingJobId ? 'Save Changes' : 'Create Job')}
               </Button>
-              <Button type="button" variant="outline" onClick={() => setShowCreateForm(false)}>
+              <Button type="button" variant="outline" onClick={closeForm}>
                 Cancel
               </Button>
             </div>
@@ -290,6 +856,7 @@ export function KeywordJobs() {
                       <div>
                         <p className="text-muted-foreground">Strategy</p>
                         <p className="font-medium capitalize">{job.strategy}</p>
+                        <p className="text-xs text-muted-foreground">{(job.countries || [job.country]).join(', ').toUpperCase()}</p>
                       </div>
                       <div>
                         <p className="text-muted-foreground">Progress</p>
@@ -302,8 +869,15 @@ export function KeywordJobs() {
                         <p className="font-medium">{job.totalKeywords}</p>
                       </div>
                       <div>
-                        <p className="text-muted-foreground">Interval</p>
-                        <p className="font-medium">{job.intervalMinutes} min</p>
+                        <p className="text-muted-foreground">Schedule</p>
+                        <p className="font-medium">
+                          {job.scheduleType === 'cron' ? job.cronExpression : `${job.intervalMinutes} min`}
+                          {job.windowStart && job.windowEnd && (
+                            <span className="text-xs text-muted-foreground ml-1">
+                              ({job.windowStart}–{job.windowEnd} {job.timezone})
+                            </span>
+                          )}
+                        </p>
                       </div>
                     </div>
 
@@ -331,18 +905,37 @@ export function KeywordJobs() {
                       {job.completedAt && (
                         <span>Completed: {new Date(job.completedAt).toLocaleString()}</span>
                       )}
+                      {job.status === 'completed' && job.stopReason && (
+                        <span>Ended: {stopReasonLabels[job.stopReason]}</span>
+                      )}
+                      {job.status === 'failed' && job.lastError && (
+                        <span className="text-red-400">Failed: {job.lastError}</span>
+                      )}
+                      {job.status === 'running' && job.nextRunAt && (
+                        <span>Next run: {new Date(job.nextRunAt).toLocaleString()}</span>
+                      )}
                     </div>
                   </div>
 
                   <div className="flex gap-2 ml-4">
                     {(job.status === 'pending' || job.status === 'paused') && (
-                      <Button
-                        size="sm"
-                        onClick={() => startJobMutation.mutate(job.id)}
-                        disabled={startJobMutation.isPending}
-                      >
-                        <Play className="w-4 h-4" />
-                      </Button>
+                      <>
+                        <Button
+                          size="sm"
+                          onClick={() => startJobMutation.mutate(job.id)}
+                          disabled={startJobMutation.isPending}
+                        >
+                          <Play className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          title="Edit job"
+                          onClick={() => startEditing(job.id)}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                      </>
                     )}
                     {job.status === 'running' && (
                       <Button
@@ -363,6 +956,26 @@ export function KeywordJobs() {
                       <TrendingUp className="w-4 h-4" />
                     </Button>
 
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      title="Clone job"
+                      onClick={() => cloneJobMutation.mutate(job.id)}
+                      disabled={cloneJobMutation.isPending}
+                    >
+                      <Copy className="w-4 h-4" />
+                    </Button>
+
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      title="Save as template"
+                      onClick={() => handleSaveAsTemplate(job)}
+                      disabled={saveTemplateMutation.isPending}
+                    >
+                      <BookmarkPlus className="w-4 h-4" />
+                    </Button>
+
                     <Button
                       size="sm"
                       variant="outline"
@@ -413,13 +1026,52 @@ interface JobDetailModalProps {
 function JobDetailModal({ jobId, onClose, onJobUpdated }: JobDetailModalProps) {
   const [sessionId] = useState<string>(getSessionId());
   const [selectedResults, setSelectedResults] = useState<Set<string>>(new Set());
+  const [filters, setFilters] = useState<JobResultsQuery>({ sortBy: 'opportunityScore', order: 'desc' });
+  const [comparedKeyword, setComparedKeyword] = useState<string | null>(null);
 
-  const { data: job, isLoading } = useQuery({
+  const { data: job } = useQuery<JobDetails>({
     queryKey: ['job', jobId],
-    queryFn: () => jobsApi.get(jobId).then(res => res.data),
+    queryFn: () => jobsApi.get(jobId, false).then(res => res.data),
+    enabled: !!jobId,
+  });
+
+  // Results are filtered and sorted server-side and loaded one page at a time
+  const {
+    data: resultPages,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ['job-results', jobId, filters],
+    queryFn: ({ pageParam }) =>
+      jobsApi.results(jobId, { ...filters, cursor: pageParam, limit: 100 }).then(res => res.data as JobResultsPage),
+    initialPageParam: undefined as string | undefined,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
     enabled: !!jobId,
   });
 
+  const results = resultPages?.pages.flatMap((page) => page.results) || [];
+  const totalResults = resultPages?.pages[0]?.total || 0;
+
+  const updateFilter = (changes: Partial<JobResultsQuery>) => {
+    setFilters((current) => ({ ...current, ...changes }));
+    setSelectedResults(new Set());
+  };
+
+  const numberOrUndefined = (value: string) => (value === '' ? undefined : Number(value));
+
+  // Refresh summary and results as keywords are analyzed
+  const queryClient = useQueryClient();
+  const handleJobEvent = useCallback((event: JobEvent) => {
+    queryClient.setQueryData<JobDetails>(['job', jobId], (current) => current && applyJobEvent(current, event));
+    if (event.type === 'keyword.result' || event.type === 'keyword.error') {
+      queryClient.invalidateQueries({ queryKey: ['job-results', jobId] });
+    }
+  }, [queryClient, jobId]);
+
+  useJobEvents(jobsApi.eventsUrl(jobId), handleJobEvent);
+
   const trackKeywordsMutation = useMutation({
     mutationFn: (resultIds: string[]) => jobsApi.trackKeywords(jobId, resultIds, sessionId),
     onSuccess: (response) => {
@@ -455,6 +1107,14 @@ function JobDetailModal({ jobId, onClose, onJobUpdated }: JobDetailModalProps) {
 
   if (!jobId) return null;
 
+  // Competitor jobs can be narrowed down to keywords mined from one app
+  const sourceApps = job?.sourceApps || [];
+  // Multi-country jobs get a country column and per-keyword comparison
+  const countries = job?.countries || [];
+  const isMultiCountry = countries.length > 1;
+  const columnCount = 7 + (isMultiCountry ? 1 : 0) + (sourceApps.length > 0 ? 1 : 0);
+  const selectClassName = 'px-3 py-1.5 bg-card border border-stone-700 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-primary text-foreground';
+
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
       <div className="bg-card border border-gray-800 rounded-xl max-w-6xl w-full max-h-[90vh] overflow-hidden flex flex-col">
@@ -480,18 +1140,146 @@ function JobDetailModal({ jobId, onClose, onJobUpdated }: JobDetailModalProps) {
             <div className="flex items-center justify-center py-12">
               <Loader2 className="w-8 h-8 animate-spin text-primary" />
             </div>
-          ) : job?.results && job.results.length > 0 ? (
+          ) : (job?._count?.results || 0) > 0 ? (
             <div className="space-y-4">
+              {/* Filters */}
+              <div className="flex flex-wrap items-end gap-3">
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Status</label>
+                  <select
+                    className={selectClassName}
+                    value={filters.status || ''}
+                    onChange={(e) => updateFilter({ status: (e.target.value || undefined) as JobResultsQuery['status'] })}
+                  >
+                    <option value="">All</option>
+                    <option value="success">Success</option>
+                    <option value="error">Error</option>
+                    <option value="skipped">Skipped</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Cycle</label>
+                  <Input
+                    type="number"
+                    min="1"
+                    className="h-9 w-20"
+                    value={filters.cycle ?? ''}
+                    onChange={(e) => updateFilter({ cycle: numberOrUndefined(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Min Popularity</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    className="h-9 w-24"
+                    value={filters.minPopularity ?? ''}
+                    onChange={(e) => updateFilter({ minPopularity: numberOrUndefined(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Max Difficulty</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="100"
+                    className="h-9 w-24"
+                    value={filters.maxDifficulty ?? ''}
+                    onChange={(e) => updateFilter({ maxDifficulty: numberOrUndefined(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Min Opportunity</label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    className="h-9 w-24"
+                    value={filters.minOpportunityScore ?? ''}
+                    onChange={(e) => updateFilter({ minOpportunityScore: numberOrUndefined(e.target.value) })}
+                  />
+                </div>
+                {isMultiCountry && (
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-1">Country</label>
+                    <select
+                      className={selectClassName}
+                      value={filters.country || ''}
+                      onChange={(e) => updateFilter({ country: e.target.value || undefined })}
+                    >
+                      <option value="">All countries</option>
+                      {countries.map((code) => (
+                        <option key={code} value={code}>{code.toUpperCase()}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                {sourceApps.length > 0 && (
+                  <div>
+                    <label className="block text-xs text-muted-foreground mb-1">Source App</label>
+                    <select
+                      className={selectClassName}
+                      value={filters.sourceAppId || ''}
+                      onChange={(e) => updateFilter({ sourceAppId: e.target.value || undefined })}
+                    >
+                      <option value="">All competitors</option>
+                      {sourceApps.map((app) => (
+                        <option key={app.appId} value={app.appId}>{app.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+                <div>
+                  <label className="block text-xs text-muted-foreground mb-1">Sort By</label>
+                  <div className="flex gap-2">
+                    <select
+                      className={selectClassName}
+                      value={filters.sortBy}
+                      onChange={(e) => updateFilter({ sortBy: e.target.value as JobResultsQuery['sortBy'] })}
+                    >
+                      <option value="opportunityScore">Opportunity</option>
+                      <option value="popularity">Popularity</option>
+                      <option value="difficulty">Difficulty</option>
+                      <option value="competitorCount">Competitors</option>
+                      <option value="keyword">Keyword</option>
+                      <option value="cycleNumber">Cycle</option>
+                      <option value="searchedAt">Searched At</option>
+                    </select>
+                    <select
+                      className={selectClassName}
+                      value={filters.order}
+                      onChange={(e) => updateFilter({ order: e.target.value as JobResultsQuery['order'] })}
+                    >
+                      <option value="desc">Desc</option>
+                      <option value="asc">Asc</option>
+                    </select>
+                  </div>
+                </div>
+                <div className="flex gap-2 ml-auto">
+                  {(['csv', 'ndjson', 'xlsx'] as const).map((format) => (
+                    <a
+                      key={format}
+                      href={jobsApi.resultsExportUrl(jobId, filters, format)}
+                      className="inline-flex items-center px-3 py-1.5 border border-stone-700 rounded-lg text-sm hover:bg-accent transition-colors"
+                    >
+                      <Download className="w-4 h-4 mr-1" />
+                      {format.toUpperCase()}
+                    </a>
+                  ))}
+                </div>
+              </div>
+
               {/* Actions Bar */}
               <div className="flex items-center justify-between p-4 bg-accent/30 rounded-lg">
                 <div className="flex items-center gap-4">
                   <label className="flex items-center gap-2 cursor-pointer">
                     <input
                       type="checkbox"
-                      checked={selectedResults.size === job.results.length}
+                      checked={results.length > 0 && selectedResults.size === results.length}
                       onChange={(e) => {
                         if (e.target.checked) {
-                          setSelectedResults(new Set(job.results.map((r: any) => r.id)));
+                          setSelectedResults(new Set(results.map((r) => r.id)));
                         } else {
                           setSelectedResults(new Set());
                         }
@@ -500,6 +1288,9 @@ function JobDetailModal({ jobId, onClose, onJobUpdated }: JobDetailModalProps) {
                     />
                     <span className="text-sm">Select All ({selectedResults.size} selected)</span>
                   </label>
+                  <span className="text-sm text-muted-foreground">
+                    Showing {results.length} of {totalResults} matching results
+                  </span>
                 </div>
                 <Button
                   onClick={handleTrackSelected}
@@ -517,81 +1308,120 @@ function JobDetailModal({ jobId, onClose, onJobUpdated }: JobDetailModalProps) {
                     <tr className="border-b border-gray-800">
                       <th className="text-left p-3 font-medium text-sm"></th>
                       <th className="text-left p-3 font-medium text-sm">Keyword</th>
+                      {isMultiCountry && (
+                        <th className="text-left p-3 font-medium text-sm">Country</th>
+                      )}
                       <th className="text-left p-3 font-medium text-sm">Popularity</th>
                       <th className="text-left p-3 font-medium text-sm">Difficulty</th>
                       <th className="text-left p-3 font-medium text-sm">Opportunity</th>
                       <th className="text-left p-3 font-medium text-sm">Competitors</th>
+                      {sourceApps.length > 0 && (
+                        <th className="text-left p-3 font-medium text-sm">Source App</th>
+                      )}
                       <th className="text-left p-3 font-medium text-sm">Status</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {job.results.map((result: any) => (
-                      <tr
-                        key={result.id}
-                        className={`border-b border-stone-800 hover:bg-secondary/30 transition-colors ${
-                          result.isTracked ? 'bg-emerald-500/10' : ''
-                        }`}
-                      >
-                        <td className="p-3">
-                          <input
-                            type="checkbox"
-                            checked={selectedResults.has(result.id)}
-                            onChange={() => toggleResult(result.id)}
-                            disabled={result.status !== 'success'}
-                            className="w-4 h-4 rounded border-stone-600 bg-card"
-                          />
-                        </td>
-                        <td className="p-3">
-                          <span className="font-medium">{result.keyword}</span>
-                          {result.isTracked && (
-                            <Badge variant="success" className="ml-2 text-xs">Tracked</Badge>
+                    {results.map((result) => (
+                      <Fragment key={result.id}>
+                        <tr
+                          className={`border-b border-stone-800 hover:bg-secondary/30 transition-colors ${
+                            result.isTracked ? 'bg-emerald-500/10' : ''
+                          }`}
+                        >
+                          <td className="p-3">
+                            <input
+                              type="checkbox"
+                              checked={selectedResults.has(result.id)}
+                              onChange={() => toggleResult(result.id)}
+                              disabled={result.status !== 'success'}
+                              className="w-4 h-4 rounded border-stone-600 bg-card"
+                            />
+                          </td>
+                          <td className="p-3">
+                            {isMultiCountry ? (
+                              <button
+                                type="button"
+                                title="Compare across countries"
+                                className="font-medium hover:text-primary transition-colors"
+                                onClick={() => setComparedKeyword(comparedKeyword === result.keyword ? null : result.keyword)}
+                              >
+                                {result.keyword}
+                              </button>
+                            ) : (
+                              <span className="font-medium">{result.keyword}</span>
+                            )}
+                            {result.isTracked && (
+                              <Badge variant="success" className="ml-2 text-xs">Tracked</Badge>
+                            )}
+                          </td>
+                          {isMultiCountry && (
+                            <td className="p-3 text-sm">{result.country.toUpperCase()}</td>
                           )}
-                        </td>
-                        <td className="p-3">
-                          <div className="flex items-center gap-2">
-                            <div className="w-16 h-2 bg-secondary rounded-full overflow-hidden">
-                              <div
-                                className="h-full bg-gradient-warm"
-                                style={{ width: `${result.popularity || 0}%` }}
-                              />
+                          <td className="p-3">
+                            <div className="flex items-center gap-2">
+                              <div className="w-16 h-2 bg-secondary rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-gradient-warm"
+                                  style={{ width: `${result.popularity || 0}%` }}
+                                />
+                              </div>
+                              <span className="text-sm">{result.popularity || '-'}</span>
                             </div>
-                            <span className="text-sm">{result.popularity || '-'}</span>
-                          </div>
-                        </td>
-                        <td className="p-3">
-                          <div className="flex items-center gap-2">
-                            <div className="w-16 h-2 bg-secondary rounded-full overflow-hidden">
-                              <div
-                                className="h-full bg-gradient-to-r from-emerald-500 via-amber-500 to-red-500"
-                                style={{ width: `${result.difficulty || 0}%` }}
-                              />
+                          </td>
+                          <td className="p-3">
+                            <div className="flex items-center gap-2">
+                              <div className="w-16 h-2 bg-secondary rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-gradient-to-r from-emerald-500 via-amber-500 to-red-500"
+                                  style={{ width: `${result.difficulty || 0}%` }}
+                                />
+                              </div>
+                              <span className="text-sm">{result.difficulty || '-'}</span>
                             </div>
-                            <span className="text-sm">{result.difficulty || '-'}</span>
-                          </div>
-                        </td>
-                        <td className="p-3">
-                          <span className={`font-bold ${
-                            (result.opportunityScore || 0) > 5 ? 'text-emerald-400' :
-                            (result.opportunityScore || 0) > 2 ? 'text-amber-400' : 'text-stone-500'
-                          }`}>
-                            {result.opportunityScore?.toFixed(1) || '-'}
-                          </span>
-                        </td>
-                        <td className="p-3 text-sm">{result.competitorCount || '-'}</td>
-                        <td className="p-3">
-                          {result.status === 'success' ? (
-                            <Badge variant="success">Success</Badge>
-                          ) : result.status === 'error' ? (
-                            <Badge variant="danger">Error</Badge>
-                          ) : (
-                            <Badge variant="secondary">Skipped</Badge>
+                          </td>
+                          <td className="p-3">
+                            <span className={`font-bold ${
+                              (result.opportunityScore || 0) >= 70 ? 'text-emerald-400' :
+                              (result.opportunityScore || 0) >= 40 ? 'text-amber-400' : 'text-stone-500'
+                            }`}>
+                              {result.opportunityScore?.toFixed(1) || '-'}
+                            </span>
+                          </td>
+                          <td className="p-3 text-sm">{result.competitorCount || '-'}</td>
+                          {sourceApps.length > 0 && (
+                            <td className="p-3 text-sm text-muted-foreground">{result.sourceAppName || '-'}</td>
                           )}
-                        </td>
-                      </tr>
+                          <td className="p-3">
+                            {result.status === 'success' ? (
+                              <Badge variant="success">Success</Badge>
+                            ) : result.status === 'error' ? (
+                              <Badge variant="danger">Error</Badge>
+                            ) : (
+                              <Badge variant="secondary">Skipped</Badge>
+                            )}
+                          </td>
+                        </tr>
+                        {comparedKeyword === result.keyword && results.find((r) => r.keyword === result.keyword) === result && (
+                          <KeywordCountryComparison jobId={jobId} keyword={result.keyword} colSpan={columnCount} />
+                        )}
+                      </Fragment>
                     ))}
                   </tbody>
                 </table>
+                {results.length === 0 && (
+                  <p className="text-center text-muted-foreground py-8">No results match these filters</p>
+                )}
               </div>
+
+              {hasNextPage && (
+                <div className="flex justify-center">
+                  <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                    {isFetchingNextPage && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Load More
+                  </Button>
+                </div>
+              )}
             </div>
           ) : (
             <div className="text-center py-12">
@@ -603,3 +1433,55 @@ function JobDetailModal({ jobId, onClose, onJobUpdated }: JobDetailModalProps) {
     </div>
   );
 }
+
+// Cross-country comparison of one keyword, shown below its first row in the results table
+interface KeywordCountryComparisonProps {
+  jobId: string;
+  keyword: string;
+  colSpan: number;
+}
+
+function KeywordCountryComparison({ jobId, keyword, colSpan }: KeywordCountryComparisonProps) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['job-keyword-comparison', jobId, keyword],
+    queryFn: () =>
+      jobsApi.results(jobId, { keyword, status: 'success', sortBy: 'opportunityScore', order: 'desc', limit: 50 })
+        .then(res => res.data as JobResultsPage),
+  });
+
+  return (
+    <tr className="border-b border-stone-800 bg-accent/20">
+      <td colSpan={colSpan} className="p-4">
+        <p className="text-sm font-medium mb-2">"{keyword}" across countries</p>
+        {isLoading ? (
+          <Loader2 className="w-4 h-4 animate-spin text-primary" />
+        ) : data && data.results.length > 0 ? (
+          <table className="text-sm">
+            <thead>
+              <tr className="text-muted-foreground">
+                <th className="text-left pr-6 py-1 font-medium">Country</th>
+                <th className="text-left pr-6 py-1 font-medium">Popularity</th>
+                <th className="text-left pr-6 py-1 font-medium">Difficulty</th>
+                <th className="text-left pr-6 py-1 font-medium">Opportunity</th>
+                <th className="text-left pr-6 py-1 font-medium">Competitors</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.results.map((row) => (
+                <tr key={row.id}>
+                  <td className="pr-6 py-1 font-medium">{row.country.toUpperCase()}</td>
+                  <td className="pr-6 py-1">{row.popularity ?? '-'}</td>
+                  <td className="pr-6 py-1">{row.difficulty ?? '-'}</td>
+                  <td className="pr-6 py-1 font-bold">{row.opportunityScore?.toFixed(1) ?? '-'}</td>
+                  <td className="pr-6 py-1">{row.competitorCount ?? '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No successful analyses for this keyword yet</p>
+        )}
+      </td>
+    </tr>
+  );
+}
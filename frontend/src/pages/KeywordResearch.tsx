@@ -6,7 +6,8 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../co
 import { Button } from '../components/ui/Button'
 import { Input } from '../components/ui/Input'
 import { Badge } from '../components/ui/Badge'
-import { keywordApi, trackedApi } from '../lib/api'
+import { DifficultyBreakdown } from '../components/keywords/DifficultyBreakdown'
+import { keywordApi, trackedApi, type TitleMatch } from '../lib/api'
 import { formatNumber } from '../lib/utils'
 import { useStore } from '../store/useStore'
 
@@ -22,6 +23,12 @@ const getDifficultyColor = (difficulty: number) => {
   return 'text-red-400'
 }
 
+const titleMatchBadges: Record<TitleMatch, { label: string; variant: 'danger' | 'warning' | 'outline' }> = {
+  exact: { label: 'Exact title match', variant: 'danger' },
+  partial: { label: 'Partial match', variant: 'warning' },
+  none: { label: 'No title match', variant: 'outline' },
+}
+
 export function KeywordResearch() {
   const navigate = useNavigate()
   const { addTrackedApp } = useStore()
@@ -196,6 +203,9 @@ export function KeywordResearch() {
                     <p className="text-sm text-muted-foreground">
                       {analysis.popularity > 60 ? 'High search volume' : analysis.popularity > 30 ? 'Moderate searches' : 'Low search volume'}
                     </p>
+                    <p className="text-xs text-muted-foreground">
+                      {analysis.popularitySource === 'apple_search_ads' ? 'Source: Apple Search Ads' : 'Source: estimated from App Store signals'}
+                    </p>
                   </div>
                 </CardContent>
               </Card>
@@ -213,15 +223,25 @@ export function KeywordResearch() {
                       {analysis.difficulty}
                       <span className="text-2xl text-muted-foreground">/100</span>
                     </div>
-                    <div className="w-full bg-secondary rounded-full h-3 overflow-hidden">
-                      <div
-                        className="h-full bg-gradient-to-r from-emerald-500 via-amber-500 to-red-500 transition-all duration-500"
-                        style={{ width: `${analysis.difficulty}%` }}
-                      />
-                    </div>
+                    {analysis.difficultyFactors ? (
+                      <DifficultyBreakdown factors={analysis.difficultyFactors} />
+                    ) : (
+                      <div className="w-full bg-secondary rounded-full h-3 overflow-hidden">
+                        <div
+                          className="h-full bg-gradient-to-r from-emerald-500 via-amber-500 to-red-500 transition-all duration-500"
+                          style={{ width: `${analysis.difficulty}%` }}
+                        />
+                      </div>
+                    )}
                     <p className="text-sm text-muted-foreground">
                       {analysis.difficulty < 30 ? 'Easy to rank' : analysis.difficulty < 60 ? 'Moderate competition' : 'Highly competitive'}
                     </p>
+                    {analysis.titleMatches && analysis.titleMatches.length > 0 && (
+                      <p className="text-xs text-muted-foreground">
+                        {analysis.titleMatches.filter((m) => m.titleMatch === 'exact').length} of {analysis.titleMatches.length} top
+                        apps have the exact phrase in their title, {analysis.titleMatches.filter((m) => m.titleMatch === 'partial').length} partially target it
+                      </p>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -273,6 +293,11 @@ export function KeywordResearch() {
                         <div>
                           <p className="font-semibold hover:text-primary transition-colors">{app.name}</p>
                           <p className="text-sm text-muted-foreground">{app.developer}</p>
+                          {app.titleMatch && (
+                            <Badge variant={titleMatchBadges[app.titleMatch as TitleMatch].variant} className="mt-1">
+                              {titleMatchBadges[app.titleMatch as TitleMatch].label}
+                            </Badge>
+                          )}
                         </div>
                       </div>
                       <div className="flex items-center space-x-4">
@@ -0,0 +1,184 @@
+import { useState } from 'react'
+import { useQuery } from '@tanstack/react-query'
+import { ChevronDown, ChevronRight, GitBranch, Search } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/Card'
+import { Button } from '../components/ui/Button'
+import { Input } from '../components/ui/Input'
+import { Badge } from '../components/ui/Badge'
+import { keywordApi, type LongTailNode } from '../lib/api'
+
+interface ExploreParams {
+  keyword: string
+  country: string
+  depth: number
+  maxNodes: number
+}
+
+const getOpportunityColor = (score: number) => {
+  if (score >= 70) return 'text-emerald-400'
+  if (score >= 40) return 'text-amber-400'
+  return 'text-stone-500'
+}
+
+function TreeNode({ node, defaultOpen }: { node: LongTailNode; defaultOpen: boolean }) {
+  const [open, setOpen] = useState(defaultOpen)
+  const hasChildren = node.children.length > 0
+
+  return (
+    <div>
+      <div
+        className={`flex items-center justify-between gap-4 py-2 px-3 rounded-lg hover:bg-secondary ${hasChildren ? 'cursor-pointer' : ''}`}
+        style={{ paddingLeft: `${node.depth * 1.5 + 0.75}rem` }}
+        onClick={() => hasChildren && setOpen(!open)}
+      >
+        <div className="flex items-center gap-2 min-w-0">
+          {hasChildren ? (
+            open ? <ChevronDown className="h-4 w-4 shrink-0" /> : <ChevronRight className="h-4 w-4 shrink-0" />
+          ) : (
+            <span className="w-4 shrink-0" />
+          )}
+          <span className={node.depth === 0 ? 'font-bold' : 'font-medium'}>{node.keyword}</span>
+          {hasChildren && <Badge variant="secondary">{node.children.length}</Badge>}
+          {node.sourceQuery && (
+            <span className="text-xs text-muted-foreground truncate">via "{node.sourceQuery}"</span>
+          )}
+        </div>
+        {node.metrics ? (
+          <div className="flex items-center gap-4 text-sm shrink-0">
+            <span title="Popularity">Pop {node.metrics.popularity}</span>
+            <span title="Difficulty">Diff {node.metrics.difficulty}</span>
+            <span className={`font-bold w-16 text-right ${getOpportunityColor(node.metrics.opportunityScore)}`} title="Opportunity">
+              {node.metrics.opportunityScore.toFixed(1)}
+            </span>
+          </div>
+        ) : (
+          <span className="text-xs text-muted-foreground shrink-0">no metrics</span>
+        )}
+      </div>
+      {open && node.children.map((child) => (
+        <TreeNode key={child.keyword} node={child} defaultOpen={false} />
+      ))}
+    </div>
+  )
+}
+
+export function LongTailExplorer() {
+  const [keyword, setKeyword] = useState('')
+  const [country, setCountry] = useState('us')
+  const [depth, setDepth] = useState(2)
+  const [maxNodes, setMaxNodes] = useState(40)
+  const [params, setParams] = useState<ExploreParams | null>(null)
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['long-tail', params],
+    queryFn: async () => {
+      const response = await keywordApi.getLongTail(params!.keyword, params!.country, {
+        depth: params!.depth,
+        maxNodes: params!.maxNodes,
+      })
+      return response.data
+    },
+    enabled: !!params,
+  })
+
+  const handleExplore = () => {
+    if (keyword.trim()) {
+      setParams({ keyword: keyword.trim(), country, depth, maxNodes })
+    }
+  }
+
+  return (
+    <div className="p-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-2">
+          <span className="text-gradient">Long-tail Explorer</span>
+        </h1>
+        <p className="text-muted-foreground">
+          Expand a seed keyword through App Store autocomplete into a tree of long-tail keywords
+        </p>
+      </div>
+
+      <Card className="animate-scale-in">
+        <CardContent className="pt-6">
+          <div className="flex flex-col md:flex-row gap-4">
+            <div className="flex-1">
+              <Input
+                placeholder="Enter a seed keyword..."
+                value={keyword}
+                onChange={(e) => setKeyword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleExplore()}
+                className="h-12"
+              />
+            </div>
+            <select
+              value={country}
+              onChange={(e) => setCountry(e.target.value)}
+              className="h-12 px-4 rounded-xl bg-card border border-stone-800 text-foreground"
+            >
+              <option value="us">United States</option>
+              <option value="gb">United Kingdom</option>
+              <option value="de">Germany</option>
+              <option value="fr">France</option>
+              <option value="jp">Japan</option>
+            </select>
+            <select
+              value={depth}
+              onChange={(e) => setDepth(parseInt(e.target.value))}
+              className="h-12 px-4 rounded-xl bg-card border border-stone-800 text-foreground"
+              title="Levels below the seed"
+            >
+              <option value={1}>Depth 1</option>
+              <option value={2}>Depth 2</option>
+              <option value={3}>Depth 3</option>
+            </select>
+            <select
+              value={maxNodes}
+              onChange={(e) => setMaxNodes(parseInt(e.target.value))}
+              className="h-12 px-4 rounded-xl bg-card border border-stone-800 text-foreground"
+              title="Most keywords in the tree"
+            >
+              <option value={20}>20 keywords</option>
+              <option value={40}>40 keywords</option>
+              <option value={80}>80 keywords</option>
+            </select>
+            <Button onClick={handleExplore} disabled={!keyword.trim() || isLoading} size="lg" className="h-12">
+              <Search className="h-5 w-5 mr-2" />
+              {isLoading ? 'Exploring...' : 'Explore'}
+            </Button>
+          </div>
+          {isLoading && (
+            <p className="text-sm text-muted-foreground mt-4">
+              Probing autocomplete and analyzing every keyword - this can take a few minutes for deeper trees.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <Card className="border-red-500/30">
+          <CardContent className="pt-6 text-red-400">
+            Failed to explore long-tail keywords: {(error as Error).message}
+          </CardContent>
+        </Card>
+      )}
+
+      {data && (
+        <Card className="animate-fade-in">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <GitBranch className="h-5 w-5 text-primary" />
+              Autocomplete Tree for "{data.seedKeyword}"
+            </CardTitle>
+            <CardDescription>
+              {data.stats.nodes} keywords from {data.stats.requests} autocomplete requests
+              {data.stats.truncated && ' - stopped early at the node or request limit'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <TreeNode node={data.tree} defaultOpen />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -7,7 +7,7 @@ import { Input } from '../components/ui/Input';
 import { Badge } from '../components/ui/Badge';
 import { useStore } from '../store/useStore';
 import { appApi } from '../lib/api';
-import { extractAppStoreId } from '../lib/utils';
+import { extractAppStoreId, extractDeveloperId } from '../lib/utils';
 
 export function MyApps() {
   const [urlInput, setUrlInput] = useState('');
@@ -20,6 +20,13 @@ export function MyApps() {
   const handleAddApp = async () => {
     setError(null);
 
+    // A developer page URL opens the developer's catalog for bulk import
+    const developerId = extractDeveloperId(urlInput);
+    if (developerId) {
+      navigate(`/developers/${developerId}`);
+      return;
+    }
+
     // Extract ID from URL
     const appId = extractAppStoreId(urlInput);
     if (!appId) {
@@ -91,7 +98,7 @@ export function MyApps() {
                 Add New App
               </CardTitle>
               <CardDescription>
-                Paste an App Store URL or enter the App Store ID to add your app
+                Paste an App Store URL or enter the App Store ID to add your app, or paste a developer page URL to add their whole catalog
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -134,6 +141,7 @@ export function MyApps() {
                   <li>https://apps.apple.com/us/app/instagram/id389801252</li>
                   <li>https://apps.apple.com/app/id389801252</li>
                   <li>Just the ID: 389801252</li>
+                  <li>A developer page to import their whole catalog: https://apps.apple.com/us/developer/developer-name/id123456789</li>
                 </ul>
               </div>
             </CardContent>
@@ -282,9 +282,9 @@ export function MyTracking() {
                 </div>
                 <div>
                   <p className="text-2xl font-bold text-emerald-400">
-                    {keywords.filter(kw => (kw.opportunityScore || 0) >= 5.0).length}
+                    {keywords.filter(kw => (kw.opportunityScore || 0) >= 70).length}
                   </p>
-                  <p className="text-sm text-muted-foreground">High Opportunity (≥5.0)</p>
+                  <p className="text-sm text-muted-foreground">High Opportunity (≥70)</p>
                 </div>
               </div>
             </CardContent>
@@ -313,9 +313,9 @@ export function MyTracking() {
                           {kw.opportunityScore !== undefined && kw.opportunityScore !== null && (
                             <Badge
                               variant={
-                                kw.opportunityScore >= 5.0
+                                kw.opportunityScore >= 70
                                   ? 'success'
-                                  : kw.opportunityScore >= 2.0
+                                  : kw.opportunityScore >= 40
                                   ? 'warning'
                                   : 'danger'
                               }
@@ -9,18 +9,42 @@ export const config = {
   geminiApiKey: process.env.GEMINI_API_KEY,
 
   // Apple Search Ads Configuration
+  // Either APPLE_PRIVATE_KEY (PEM, used to sign the client secret) or a pre-generated APPLE_CLIENT_SECRET is required
   apple: {
     teamId: process.env.APPLE_TEAM_ID,
     keyId: process.env.APPLE_KEY_ID,
     clientId: process.env.APPLE_CLIENT_ID,
     clientSecret: process.env.APPLE_CLIENT_SECRET,
+    privateKey: process.env.APPLE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    orgId: process.env.APPLE_ORG_ID,
+    adamId: process.env.APPLE_ADAM_ID, // App the keyword popularity/recommendation requests are made for
+    authUrl: process.env.APPLE_AUTH_URL || 'https://appleid.apple.com/auth/oauth2/token',
+    apiUrl: process.env.APPLE_SEARCH_ADS_API_URL || 'https://api.searchads.apple.com/api/v5',
   },
   
   // Translation
   deeplApiKey: process.env.DEEPL_API_KEY,
   
-  // Cache
-  cacheTtl: parseInt(process.env.CACHE_TTL_SECONDS) || 3600,
+  // Cache: in-memory L1 backed by a persistent L2 ("sqlite" or "memory" for L1 only)
+  cache: {
+    store: process.env.CACHE_STORE || 'sqlite',
+    defaultTtl: parseInt(process.env.CACHE_TTL_SECONDS) || 3600,
+    // Per-namespace (key prefix) TTLs in seconds; staleTtl is how long past expiry an entry
+    // may still be served while it is refreshed in the background (stale-while-revalidate)
+    namespaces: {
+      search: { ttl: 1800 },
+      app: { ttl: 3600 },
+      developer: { ttl: 3600 },
+      suggestions: { ttl: 3600 },
+      top: { ttl: 3600 },
+      reviews: { ttl: 3600 },
+      page: { ttl: 21600 }, // Product page HTML
+      keyword: { ttl: 3600, staleTtl: parseInt(process.env.KEYWORD_CACHE_STALE_SECONDS) || 21600 },
+      'prefix-depth': { ttl: 86400 }, // Probe results change slowly
+      translate: { ttl: 86400 },
+      ai: { ttl: 7200 },
+    },
+  },
   
   // Rate Limiting
   rateLimit: {
@@ -28,6 +52,43 @@ export const config = {
     maxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS) || 100,
   },
   
+  // Keyword job queue
+  jobs: {
+    pollIntervalMs: parseInt(process.env.JOB_POLL_INTERVAL_MS) || 5000,
+    leaseMs: parseInt(process.env.JOB_LEASE_MS) || 120000,
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS) || 3,
+    retryDelayMs: parseInt(process.env.JOB_RETRY_DELAY_MS) || 60000,
+    concurrency: parseInt(process.env.JOB_WORKER_CONCURRENCY) || 1,
+    eventRetentionHours: parseInt(process.env.JOB_EVENT_RETENTION_HOURS) || 24,
+  },
+
+  // Daily top chart collector (top free, paid and grossing for each category and country)
+  charts: {
+    enabled: process.env.CHART_COLLECTOR_ENABLED !== 'false',
+    countries: (process.env.CHART_COUNTRIES || 'us').split(',').map((country) => country.trim().toLowerCase()),
+    categories: (process.env.CHART_CATEGORIES || 'all,games,health,productivity,finance,education')
+      .split(',')
+      .map((category) => category.trim().toLowerCase()),
+    limit: parseInt(process.env.CHART_LIMIT) || 200,
+    checkIntervalMs: parseInt(process.env.CHART_CHECK_INTERVAL_MS) || 3600000,
+    retentionDays: parseInt(process.env.CHART_RETENTION_DAYS) || 180,
+  },
+
+  // Long-tail autocomplete explorer limits (per request)
+  longTail: {
+    maxDepth: parseInt(process.env.LONG_TAIL_MAX_DEPTH) || 3,
+    maxRequests: parseInt(process.env.LONG_TAIL_MAX_REQUESTS) || 400,
+  },
+
+  // Shared App Store request budget (per host, across jobs, interactive and bulk calls)
+  upstream: {
+    concurrency: parseInt(process.env.UPSTREAM_CONCURRENCY) || 4,
+    ratePerSecond: parseFloat(process.env.UPSTREAM_RATE_PER_SECOND) || 5,
+    burst: parseInt(process.env.UPSTREAM_BURST) || 10,
+    maxRetries: parseInt(process.env.UPSTREAM_MAX_RETRIES) || 3,
+    retryBaseMs: parseInt(process.env.UPSTREAM_RETRY_BASE_MS) || 500,
+  },
+
   // Supported App Store countries
   supportedCountries: [
     { code: 'us', name: 'United States' },
@@ -7,6 +7,7 @@ import { logger } from './utils/logger.js';
 import routes from './routes/index.js';
 import { analyticsMiddleware } from './middleware/analytics.js';
 import { jobRunnerService } from './services/jobRunner.service.js';
+import { chartsService } from './services/charts.service.js';
 
 const app = express();
 
@@ -87,9 +88,19 @@ app.get('/', (req, res) => {
         detail: 'GET /api/apps/:appId',
         keywords: 'GET /api/apps/:appId/keywords',
         top: 'GET /api/apps/top/:category',
+        charts: 'GET /api/apps/:appId/charts',
         rankings: 'GET /api/apps/rankings/:keyword',
         suggestions: 'GET /api/apps/suggestions/:term',
       },
+      developers: {
+        apps: 'GET /api/developers/:developerId/apps?country=:country',
+      },
+      charts: {
+        status: 'GET /api/charts',
+        latest: 'GET /api/charts/:chart/:category?country=:country',
+        history: 'GET /api/charts/:chart/:category/history?country=:country&days=:days',
+        collect: 'POST /api/charts/collect',
+      },
       ai: {
         suggestKeywords: 'POST /api/ai/suggest-keywords',
         analyzeCompetitors: 'POST /api/ai/analyze-competitors',
@@ -221,6 +232,7 @@ app.get('/api/docs', (req, res) => {
               category: 'string (optional) - Category name (default: all)',
               country: 'string (optional) - 2-letter country code',
               limit: 'number (optional) - Max results (1-200)',
+              chart: 'string (optional) - free, paid or grossing (default: free)',
             },
           },
           {
@@ -348,9 +360,23 @@ app.listen(PORT, async () => {
     logger.warn('⚠️  DEEPL_API_KEY not set - Translation features will be limited');
   }
 
-  // Initialize job runner service to resume any running jobs
+  // Initialize job runner service and start the cycle queue worker
   await jobRunnerService.initialize();
   logger.info('✅ Job Runner service initialized');
+
+  // Store today's top charts now if they are missing, then check again every hour
+  chartsService.start();
 });
 
+// Release held cycle leases on shutdown so another instance can pick them up immediately
+const shutdown = async (signal) => {
+  logger.info(`${signal} received, shutting down`);
+  chartsService.stop();
+  await jobRunnerService.stopWorker();
+  process.exit(0);
+};
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
 export default app;
@@ -1,6 +1,9 @@
 import { Router } from 'express';
-import { query, param, validationResult } from 'express-validator';
-import { appStoreService } from '../services/appStore.service.js';
+import { query, param, body, validationResult } from 'express-validator';
+import { appStoreService, REVIEW_FEED_MAX_PAGES } from '../services/appStore.service.js';
+import { reviewsService } from '../services/reviews.service.js';
+import { appSnapshotService } from '../services/appSnapshot.service.js';
+import { chartsService, CHART_TYPES } from '../services/charts.service.js';
 import { cacheMiddleware } from '../utils/cache.js';
 import { logger } from '../utils/logger.js';
 
@@ -100,11 +103,206 @@ router.get(
   }
 );
 
+/**
+ * @route   GET /api/apps/:appId/page
+ * @desc    Product page data the lookup API lacks (subtitle, promotional text, in-app events,
+ *          ratings histogram, "More by this developer" and "You might also like")
+ * @params  appId (required)
+ * @query   country (optional)
+ */
+router.get(
+  '/:appId/page',
+  [
+    param('appId').isNumeric().withMessage('Valid app ID is required'),
+    query('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const { appId } = req.params;
+      const { country = 'us' } = req.query;
+      const page = await appStoreService.getProductPage(appId, country);
+      res.json(page);
+    } catch (error) {
+      logger.error('Get product page error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @route   GET /api/apps/:appId/changes
+ * @desc    Timeline of observed metadata changes (title, description, version, price, screenshots...)
+ * @params  appId (required)
+ * @query   country (optional), limit (optional, default: 50)
+ */
+router.get(
+  '/:appId/changes',
+  [
+    param('appId').isNumeric().withMessage('Valid app ID is required'),
+    query('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
+    query('limit').optional().isInt({ min: 1, max: 500 }).toInt(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const { appId } = req.params;
+      const { country = 'us', limit = 50 } = req.query;
+      const timeline = await appSnapshotService.getChanges(appId, country, limit);
+      res.json(timeline);
+    } catch (error) {
+      logger.error('Get app changes error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @route   GET /api/apps/:appId/reviews
+ * @desc    Get stored customer reviews (ingest them first)
+ * @params  appId (required)
+ * @query   country (optional), rating (optional, 1-5), limit (optional, default: 50), offset (optional)
+ */
+router.get(
+  '/:appId/reviews',
+  [
+    param('appId').isNumeric().withMessage('Valid app ID is required'),
+    query('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
+    query('rating').optional().isInt({ min: 1, max: 5 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 200 }).toInt(),
+    query('offset').optional().isInt({ min: 0 }).toInt(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const { appId } = req.params;
+      const { country = 'us', rating, limit, offset } = req.query;
+      const result = await reviewsService.getReviews(appId, country, { rating, limit, offset });
+      res.json({ appId, country, ...result });
+    } catch (error) {
+      logger.error('Get reviews error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @route   POST /api/apps/:appId/reviews/ingest
+ * @desc    Page through the App Store customer-reviews feed and store new reviews
+ * @params  appId (required)
+ * @body    country (optional), maxPages (optional, 1-10), full (optional - page past known reviews)
+ */
+router.post(
+  '/:appId/reviews/ingest',
+  [
+    param('appId').isNumeric().withMessage('Valid app ID is required'),
+    body('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
+    body('maxPages').optional().isInt({ min: 1, max: REVIEW_FEED_MAX_PAGES }).toInt(),
+    body('full').optional().isBoolean().toBoolean(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const { appId } = req.params;
+      const { country = 'us', maxPages, full } = req.body;
+      const result = await reviewsService.ingest(appId, country, { maxPages, full });
+      res.json(result);
+    } catch (error) {
+      logger.error('Ingest reviews error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @route   GET /api/apps/:appId/reviews/phrases
+ * @desc    Mine the phrases users write in stored reviews
+ * @params  appId (required)
+ * @query   country (optional), minReviews (optional, default: 2), limit (optional, default: 50), rating (optional)
+ */
+router.get(
+  '/:appId/reviews/phrases',
+  [
+    param('appId').isNumeric().withMessage('Valid app ID is required'),
+    query('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
+    query('minReviews').optional().isInt({ min: 1 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 200 }).toInt(),
+    query('rating').optional().isInt({ min: 1, max: 5 }).toInt(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const { appId } = req.params;
+      const { country = 'us', minReviews, limit, rating } = req.query;
+      const result = await reviewsService.minePhrases(appId, country, { minReviews, limit, rating });
+      res.json(result);
+    } catch (error) {
+      logger.error('Mine review phrases error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @route   POST /api/apps/:appId/reviews/mine
+ * @desc    Add the most common review phrases to the global keyword bank as candidates
+ * @params  appId (required)
+ * @body    country (optional), minReviews (optional, default: 2), limit (optional, default: 50)
+ */
+router.post(
+  '/:appId/reviews/mine',
+  [
+    param('appId').isNumeric().withMessage('Valid app ID is required'),
+    body('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
+    body('minReviews').optional().isInt({ min: 1 }).toInt(),
+    body('limit').optional().isInt({ min: 1, max: 200 }).toInt(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const { appId } = req.params;
+      const { country = 'us', minReviews, limit } = req.body;
+      const result = await reviewsService.feedKeywordBank(appId, country, { minReviews, limit });
+      res.json({ appId, country, ...result });
+    } catch (error) {
+      logger.error('Mine review keywords error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @route   GET /api/apps/:appId/charts
+ * @desc    The app's rank over time in every stored top chart it appeared in
+ * @params  appId (required)
+ * @query   country (optional), days (optional, default: 30)
+ */
+router.get(
+  '/:appId/charts',
+  [
+    param('appId').isNumeric().withMessage('Valid app ID is required'),
+    query('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
+    query('days').optional().isInt({ min: 1, max: 365 }).toInt(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const { appId } = req.params;
+      const { country = 'us', days = 30 } = req.query;
+      const timeline = await chartsService.getAppTimeline(appId, country, days);
+      res.json(timeline);
+    } catch (error) {
+      logger.error('Get app chart ranks error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
 /**
  * @route   GET /api/apps/top/:category
- * @desc    Get top apps in a category
+ * @desc    Get top apps in a category (live)
  * @params  category (optional, default: all)
- * @query   country (optional), limit (optional)
+ * @query   country (optional), limit (optional), chart (optional: free, paid, grossing; default: free)
  */
 router.get(
   '/top/:category?',
@@ -112,15 +310,17 @@ router.get(
     param('category').optional().isString(),
     query('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
     query('limit').optional().isInt({ min: 1, max: 200 }).toInt(),
+    query('chart').optional().isIn(CHART_TYPES).withMessage(`Chart must be one of: ${CHART_TYPES.join(', ')}`),
   ],
   validate,
   cacheMiddleware('top-apps', 3600),
   async (req, res) => {
     try {
       const { category = 'all' } = req.params;
-      const { country = 'us', limit = 100 } = req.query;
-      const apps = await appStoreService.getTopApps(category, country, limit);
+      const { country = 'us', limit = 100, chart = 'free' } = req.query;
+      const apps = await appStoreService.getTopApps(category, country, limit, chart);
       res.json({
+        chart,
         category,
         country,
         count: apps.length,
@@ -0,0 +1,98 @@
+import { Router } from 'express';
+import { query, validationResult } from 'express-validator';
+import { cache } from '../utils/cache.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+// Validation middleware
+const validate = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+  next();
+};
+
+// Filters shared by listing and invalidation, see keyMatches in utils/cache.js
+const filterValidators = [
+  query('namespace').optional().trim().notEmpty(),
+  query('prefix').optional().trim().notEmpty(),
+  query('keyword').optional().trim().notEmpty(),
+  query('appId').optional().isNumeric().withMessage('App ID must be numeric'),
+  query('country').optional().isLength({ min: 2, max: 2 }).withMessage('Country must be a 2-letter code').toLowerCase(),
+];
+
+const filterFrom = (req) => {
+  const { namespace, prefix, keyword, appId, country } = req.query;
+  return Object.fromEntries(
+    Object.entries({ namespace, prefix, keyword, appId, country }).filter(([, value]) => value !== undefined)
+  );
+};
+
+/**
+ * @route   GET /api/cache/stats
+ * @desc    Cache namespaces with entry counts, TTLs, hit/miss stats and memory use
+ */
+router.get('/stats', async (req, res) => {
+  try {
+    const stats = await cache.getStats();
+    res.json(stats);
+  } catch (error) {
+    logger.error('Error getting cache stats:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @route   GET /api/cache/keys
+ * @desc    List live cache entries
+ * @query   namespace, prefix, keyword, appId, country (all optional), limit (default: 100)
+ */
+router.get(
+  '/keys',
+  [
+    ...filterValidators,
+    query('limit').optional().isInt({ min: 1, max: 1000 }).toInt(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const result = await cache.listKeys(filterFrom(req), req.query.limit || 100);
+      res.json(result);
+    } catch (error) {
+      logger.error('Error listing cache keys:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @route   DELETE /api/cache
+ * @desc    Invalidate matching entries in memory and in the persistent store
+ * @query   namespace, prefix, keyword, appId, country - at least one, or all=true to clear everything
+ */
+router.delete(
+  '/',
+  [
+    ...filterValidators,
+    query('all').optional().isBoolean().toBoolean(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const filter = filterFrom(req);
+      if (Object.keys(filter).length === 0 && !req.query.all) {
+        return res.status(400).json({ error: 'Specify a filter (namespace, prefix, keyword, appId, country) or all=true' });
+      }
+
+      const deleted = await cache.invalidate(filter);
+      res.json({ filter, deleted });
+    } catch (error) {
+      logger.error('Error invalidating cache:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,117 @@
+import { Router } from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { chartsService, CHART_CATEGORIES, CHART_TYPES } from '../services/charts.service.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+// Validation middleware
+const validate = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+  next();
+};
+
+const chartValidators = [
+  param('chart').isIn(CHART_TYPES).withMessage(`Chart must be one of: ${CHART_TYPES.join(', ')}`),
+  param('category').toLowerCase().isIn(CHART_CATEGORIES).withMessage('Unknown category'),
+  query('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
+];
+
+/**
+ * @route   GET /api/charts
+ * @desc    Available charts and categories, what the daily collector stores and the latest stored day
+ */
+router.get('/', async (req, res) => {
+  try {
+    const status = await chartsService.getStatus();
+    res.json(status);
+  } catch (error) {
+    logger.error('Get chart status error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @route   POST /api/charts/collect
+ * @desc    Collect charts now instead of waiting for the daily run (replaces today's snapshot)
+ * @body    charts (optional, default: all), categories (optional, default: configured), countries (optional, default: configured)
+ */
+router.post(
+  '/collect',
+  [
+    body('charts').optional().isArray({ min: 1 }),
+    body('charts.*').isIn(CHART_TYPES),
+    body('categories').optional().isArray({ min: 1, max: CHART_CATEGORIES.length }),
+    body('categories.*').toLowerCase().isIn(CHART_CATEGORIES),
+    body('countries').optional().isArray({ min: 1, max: 10 }),
+    body('countries.*').isLength({ min: 2, max: 2 }).toLowerCase(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const configured = chartsService.getTargets();
+      const { charts, categories, countries } = req.body;
+      const targets = (charts || CHART_TYPES).flatMap((chart) =>
+        (categories || [...new Set(configured.map((target) => target.category))]).flatMap((category) =>
+          (countries || [...new Set(configured.map((target) => target.country))]).map((country) => ({ chart, category, country }))
+        )
+      );
+
+      const result = await chartsService.collect(targets);
+      res.json(result);
+    } catch (error) {
+      logger.error('Collect charts error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @route   GET /api/charts/:chart/:category
+ * @desc    Latest stored chart with rank changes, risers, fallers, new entrants and dropped apps
+ * @params  chart (free, paid, grossing), category (e.g. all, games, health)
+ * @query   country (optional)
+ */
+router.get('/:chart/:category', chartValidators, validate, async (req, res) => {
+  try {
+    const { chart, category } = req.params;
+    const { country = 'us' } = req.query;
+    const latest = await chartsService.getLatest(chart, category, country);
+    res.json(latest);
+  } catch (error) {
+    logger.error('Get chart error:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @route   GET /api/charts/:chart/:category/history
+ * @desc    Daily snapshots of a chart, oldest first
+ * @params  chart (free, paid, grossing), category (e.g. all, games, health)
+ * @query   country (optional), days (optional, default: 30), limit (optional, deepest rank, default: 100)
+ */
+router.get(
+  '/:chart/:category/history',
+  [
+    ...chartValidators,
+    query('days').optional().isInt({ min: 1, max: 365 }).toInt(),
+    query('limit').optional().isInt({ min: 1, max: 200 }).toInt(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const { chart, category } = req.params;
+      const { country = 'us', days = 30, limit = 100 } = req.query;
+      const history = await chartsService.getHistory(chart, category, country, { days, limit });
+      res.json(history);
+    } catch (error) {
+      logger.error('Get chart history error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { param, query, validationResult } from 'express-validator';
+import { appStoreService } from '../services/appStore.service.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+// Validation middleware
+const validate = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+  next();
+};
+
+/**
+ * @route   GET /api/developers/:developerId/apps
+ * @desc    Every app a developer publishes in a storefront, most rated first
+ * @params  developerId (required - the App Store artist ID, App.developerId)
+ * @query   country (optional)
+ */
+router.get(
+  '/:developerId/apps',
+  [
+    param('developerId').isNumeric().withMessage('Valid developer ID is required'),
+    query('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const { developerId } = req.params;
+      const { country = 'us' } = req.query;
+      const portfolio = await appStoreService.getDeveloperApps(developerId, country);
+      res.json({ ...portfolio, count: portfolio.apps.length });
+    } catch (error) {
+      if (error.message === 'Developer not found') {
+        res.status(404).json({ error: error.message });
+      } else {
+        logger.error('Developer apps error:', error);
+        res.status(500).json({ error: error.message });
+      }
+    }
+  }
+);
+
+export default router;
@@ -7,6 +7,11 @@ import opportunityRoutes from './opportunity.routes.js';
 import trackedRoutes from './tracked.routes.js';
 import jobsRoutes from './jobs.routes.js';
 import globalBankRoutes from './globalBank.routes.js';
+import scoringRoutes from './scoring.routes.js';
+import cacheRoutes from './cache.routes.js';
+import chartsRoutes from './charts.routes.js';
+import developersRoutes from './developers.routes.js';
+import { appStoreService } from '../services/appStore.service.js';
 import { config } from '../config/index.js';
 
 const router = Router();
@@ -17,6 +22,7 @@ router.get('/health', (req, res) => {
     status: 'ok',
     timestamp: new Date().toISOString(),
     version: '1.0.0',
+    upstream: appStoreService.getUpstreamStats(),
   });
 });
 
@@ -37,5 +43,9 @@ router.use('/opportunities', opportunityRoutes);
 router.use('/tracked', trackedRoutes);
 router.use('/jobs', jobsRoutes);
 router.use('/global-bank', globalBankRoutes);
+router.use('/scoring', scoringRoutes);
+router.use('/cache', cacheRoutes);
+router.use('/charts', chartsRoutes);
+router.use('/developers', developersRoutes);
 
 export default router;
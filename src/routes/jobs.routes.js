@@ -1,7 +1,17 @@
 import { Router } from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, query, validationResult } from 'express-validator';
 import { jobRunnerService } from '../services/jobRunner.service.js';
+import { jobEventsService } from '../services/jobEvents.service.js';
+import { jobTemplateService } from '../services/jobTemplate.service.js';
 import { logger } from '../utils/logger.js';
+import { exportWriters, setExportHeaders } from '../utils/export.js';
+import {
+  hasNextRun,
+  isValidCronExpression,
+  isValidTimezone,
+  isValidTimeOfDay,
+  previewRunTimes,
+} from '../utils/schedule.js';
 
 const router = Router();
 
@@ -14,23 +24,85 @@ const validate = (req, res, next) => {
   next();
 };
 
+// Schedule fields shared by job creation and the schedule preview
+const scheduleValidators = [
+  body('intervalMinutes').optional().isInt({ min: 1, max: 1440 }).withMessage('Interval must be 1-1440 minutes').toInt(),
+  body('scheduleType').optional().isIn(['interval', 'cron']).withMessage('Schedule type must be interval or cron'),
+  body('cronExpression')
+    .if(body('scheduleType').equals('cron'))
+    .trim()
+    .custom(isValidCronExpression)
+    .withMessage('Cron expression must have 5 valid fields (minute hour day month weekday)')
+    .bail()
+    .custom((cronExpression, { req }) => hasNextRun({ ...req.body, cronExpression }))
+    .withMessage('Cron expression never fires inside the active window'),
+  body('timezone').optional().trim().custom(isValidTimezone).withMessage('Timezone must be a valid IANA timezone'),
+  body('windowStart').optional({ values: 'falsy' }).custom(isValidTimeOfDay).withMessage('Window start must be HH:mm'),
+  body('windowEnd')
+    .optional({ values: 'falsy' })
+    .custom(isValidTimeOfDay)
+    .withMessage('Window end must be HH:mm'),
+  body('windowEnd')
+    .custom((windowEnd, { req }) => !!windowEnd === !!req.body.windowStart)
+    .withMessage('Window start and end must be set together'),
+];
+
+// Job configuration fields shared by job creation, job updates and templates (all optional)
+const jobConfigValidators = [
+  body('searchesPerBatch').optional().isInt({ min: 1, max: 10 }).withMessage('Searches per batch must be 1-10').toInt(),
+  ...scheduleValidators,
+  body('totalCycles').optional().isInt({ min: 1, max: 1000 }).withMessage('Total cycles must be 1-1000').toInt(),
+  body('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
+  body('countries').optional().isArray({ min: 1, max: 10 }).withMessage('Countries must be an array of 1-10 country codes'),
+  body('countries.*').isLength({ min: 2, max: 2 }).withMessage('Countries must be 2-letter codes').toLowerCase(),
+  body('strategy').optional().isIn(['random', 'category', 'trending', 'snowball', 'competitor']).withMessage('Strategy must be random, category, trending, snowball, or competitor'),
+  body('seedCategory').optional().trim(),
+  body('snowballMaxDepth').optional().isInt({ min: 1, max: 10 }).withMessage('Snowball max depth must be 1-10').toInt(),
+  body('snowballBranching').optional().isInt({ min: 1, max: 20 }).withMessage('Snowball branching must be 1-20').toInt(),
+  body('seedAppIds').optional().isArray({ max: 20 }).withMessage('Seed app IDs must be an array of up to 20 IDs'),
+  body('seedAppIds.*').isNumeric().withMessage('Seed app IDs must be numeric'),
+  // Stop conditions; null clears a condition when editing a job
+  body('goalKeywordCount').optional({ values: 'null' }).isInt({ min: 1, max: 10000 }).withMessage('Goal keyword count must be 1-10000').toInt(),
+  body(['goalMinOpportunityScore', 'goalMaxDifficulty', 'goalMinPopularity'])
+    .optional({ values: 'null' })
+    .isFloat({ min: 0 })
+    .withMessage('Goal thresholds must be positive numbers')
+    .toFloat(),
+  body('maxIdleCycles').optional({ values: 'null' }).isInt({ min: 1, max: 100 }).withMessage('Max idle cycles must be 1-100').toInt(),
+  body('maxErrorRate').optional({ values: 'null' }).isFloat({ min: 0, max: 100 }).withMessage('Max error rate must be 0-100%').toFloat(),
+  body('notes').optional().trim(),
+];
+
+// A new job or template using the competitor strategy needs apps to mine
+const competitorSeedValidator = body('seedAppIds')
+  .if(body('strategy').equals('competitor'))
+  .isArray({ min: 1 })
+  .withMessage('Competitor strategy requires at least one seed app ID');
+
+// Errors from updateJob caused by the request rather than the server
+const JOB_UPDATE_ERRORS = [
+  'Only pending or paused jobs can be edited',
+  'Cron schedule requires a valid cron expression',
+  'Window start and end must be set together',
+  'Cron expression never fires inside the active window',
+  'Competitor strategy requires at least one seed app ID',
+  'Total cycles cannot be lower than the cycles already run',
+];
+
 /**
  * @route   POST /api/jobs
  * @desc    Create a new keyword search job
- * @body    name, searchesPerBatch, intervalMinutes, totalCycles, country, strategy, seedCategory
+ * @body    name, searchesPerBatch, intervalMinutes, totalCycles, country or countries[], strategy, seedCategory,
+ *          snowballMaxDepth, snowballBranching, seedAppIds, scheduleType, cronExpression, timezone, windowStart, windowEnd,
+ *          goalKeywordCount, goalMinOpportunityScore, goalMaxDifficulty, goalMinPopularity, maxIdleCycles, maxErrorRate
  */
 router.post(
   '/',
   [
     body('name').trim().notEmpty().withMessage('Job name is required'),
-    body('searchesPerBatch').optional().isInt({ min: 1, max: 10 }).withMessage('Searches per batch must be 1-10'),
-    body('intervalMinutes').optional().isInt({ min: 1, max: 1440 }).withMessage('Interval must be 1-1440 minutes'),
-    body('totalCycles').optional().isInt({ min: 1, max: 1000 }).withMessage('Total cycles must be 1-1000'),
-    body('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
-    body('strategy').optional().isIn(['random', 'category', 'trending']).withMessage('Strategy must be random, category, or trending'),
-    body('seedCategory').optional().trim(),
+    ...jobConfigValidators,
+    competitorSeedValidator,
     body('sessionId').optional().trim(),
-    body('notes').optional().trim(),
   ],
   validate,
   async (req, res) => {
@@ -44,6 +116,213 @@ router.post(
   }
 );
 
+/**
+ * @route   POST /api/jobs/schedule-preview
+ * @desc    Compute the next run times of a schedule before a job is saved
+ * @body    scheduleType, intervalMinutes, cronExpression, timezone, windowStart, windowEnd, count (optional, default 5)
+ */
+router.post(
+  '/schedule-preview',
+  [
+    ...scheduleValidators,
+    body('count').optional().isInt({ min: 1, max: 20 }).toInt(),
+  ],
+  validate,
+  (req, res) => {
+    try {
+      const { count = 5, ...schedule } = req.body;
+      const nextRuns = previewRunTimes(schedule, count);
+      res.json({
+        timezone: schedule.timezone || 'UTC',
+        nextRuns: nextRuns.map((date) => date.toISOString()),
+      });
+    } catch (error) {
+      res.status(400).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @route   POST /api/jobs/estimate
+ * @desc    Estimate Gemini calls, iTunes requests and run time for a job configuration before creating it
+ * @body    same configuration fields as POST /api/jobs (name not required)
+ */
+router.post(
+  '/estimate',
+  [...jobConfigValidators, competitorSeedValidator],
+  validate,
+  (req, res) => {
+    try {
+      const estimate = jobRunnerService.estimateJob(req.body);
+      res.json(estimate);
+    } catch (error) {
+      res.status(400).json({ error: error.message });
+    }
+  }
+);
+
+// How often an SSE stream checks the event log for events published by other instances
+const EVENT_POLL_MS = 2000;
+const EVENT_HEARTBEAT_MS = 15000;
+// How many sent event IDs a stream remembers to drop duplicates between live pushes and the log
+const EVENT_DEDUPE_SIZE = 1000;
+
+/**
+ * Stream job events over Server-Sent Events
+ * Replays stored events after Last-Event-ID (header, or `lastEventId` query on first connect),
+ * then pushes live events from this instance and polls the log for the rest.
+ * Live events are held back until the replay is done, and duplicates are dropped by ID rather than
+ * by a high-water mark because events from different instances can arrive out of order.
+ */
+const streamJobEvents = async (req, res, filter) => {
+  const resumeId = parseInt(req.get('Last-Event-ID') || req.query.lastEventId) || 0;
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders();
+  res.write('retry: 3000\n\n');
+
+  const sentIds = new Set();
+  const send = (event) => {
+    if (event.id <= resumeId || sentIds.has(event.id)) return;
+    sentIds.add(event.id);
+    if (sentIds.size > EVENT_DEDUPE_SIZE) {
+      sentIds.delete(sentIds.values().next().value);
+    }
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // The log is read in ID order, so polling continues from the last stored event seen
+  let pollAfterId = resumeId;
+  const sendStored = async () => {
+    const events = await jobEventsService.getEventsSince(filter, pollAfterId);
+    for (const event of events) {
+      pollAfterId = Math.max(pollAfterId, event.id);
+      send(event);
+    }
+  };
+
+  // Without a Last-Event-ID there is nothing to replay - start from the newest event
+  const latestId = await jobEventsService.getLatestEventId(filter);
+  if (!resumeId) {
+    pollAfterId = latestId;
+  }
+
+  let buffered = [];
+  const unsubscribe = jobEventsService.subscribe(filter, (event) => {
+    if (buffered) buffered.push(event);
+    else send(event);
+  });
+  const pollId = setInterval(() => {
+    if (buffered) return;
+    sendStored().catch(error => logger.error('Error polling job events:', error));
+  }, EVENT_POLL_MS);
+  const heartbeatId = setInterval(() => res.write(': heartbeat\n\n'), EVENT_HEARTBEAT_MS);
+
+  let closed = false;
+  req.on('close', () => {
+    closed = true;
+    unsubscribe();
+    clearInterval(pollId);
+    clearInterval(heartbeatId);
+  });
+
+  try {
+    // Replay page by page up to the newest stored event before releasing the held live events,
+    // whose IDs would otherwise move the client's Last-Event-ID past events it never received
+    while (!closed && pollAfterId < latestId) {
+      const pageAfterId = pollAfterId;
+      await sendStored();
+      if (pollAfterId === pageAfterId) break;
+    }
+  } finally {
+    buffered.forEach(send);
+    buffered = null;
+  }
+};
+
+/**
+ * @route   GET /api/jobs/events
+ * @desc    SSE stream of events for all jobs of a session
+ * @query   sessionId (required), lastEventId (optional)
+ */
+router.get(
+  '/events',
+  [query('sessionId').trim().notEmpty().withMessage('sessionId is required')],
+  validate,
+  async (req, res) => {
+    try {
+      await streamJobEvents(req, res, { sessionId: req.query.sessionId });
+    } catch (error) {
+      logger.error('Error streaming session job events:', error);
+      if (!res.headersSent) res.status(500).json({ error: error.message });
+      else res.end();
+    }
+  }
+);
+
+/**
+ * @route   GET /api/jobs/templates
+ * @desc    List job templates
+ * @query   sessionId (optional)
+ */
+router.get('/templates', async (req, res) => {
+  try {
+    const templates = await jobTemplateService.listTemplates(req.query.sessionId);
+    res.json(templates);
+  } catch (error) {
+    logger.error('Error listing job templates:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @route   POST /api/jobs/templates
+ * @desc    Create a job template from a job configuration
+ * @body    name, plus the same configuration fields as POST /api/jobs
+ */
+router.post(
+  '/templates',
+  [
+    body('name').trim().notEmpty().withMessage('Template name is required'),
+    ...jobConfigValidators,
+    competitorSeedValidator,
+    body('sessionId').optional().trim(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const template = await jobTemplateService.createTemplate(req.body);
+      res.status(201).json(template);
+    } catch (error) {
+      logger.error('Error creating job template:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @route   DELETE /api/jobs/templates/:templateId
+ * @desc    Delete a job template
+ */
+router.delete('/templates/:templateId', async (req, res) => {
+  try {
+    const result = await jobTemplateService.deleteTemplate(req.params.templateId);
+    res.json(result);
+  } catch (error) {
+    if (error.message === 'Template not found') {
+      res.status(404).json({ error: error.message });
+    } else {
+      logger.error('Error deleting job template:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+});
+
 /**
  * @route   GET /api/jobs
  * @desc    List all keyword search jobs
@@ -63,10 +342,12 @@ router.get('/', async (req, res) => {
 /**
  * @route   GET /api/jobs/:id
  * @desc    Get job details with results
+ * @query   includeResults (optional, default true) - set to false to omit the inline results
  */
 router.get('/:id', async (req, res) => {
   try {
-    const job = await jobRunnerService.getJobDetails(req.params.id);
+    const includeResults = req.query.includeResults !== 'false';
+    const job = await jobRunnerService.getJobDetails(req.params.id, { includeResults });
     res.json(job);
   } catch (error) {
     if (error.message === 'Job not found') {
@@ -78,6 +359,180 @@ router.get('/:id', async (req, res) => {
   }
 });
 
+// Columns of a job results export, in order
+const RESULT_EXPORT_COLUMNS = [
+  { key: 'keyword', header: 'Keyword', width: 30 },
+  { key: 'country', header: 'Country', width: 9 },
+  { key: 'cycleNumber', header: 'Cycle', width: 8 },
+  { key: 'status', header: 'Status', width: 10 },
+  { key: 'popularity', header: 'Popularity', width: 12 },
+  { key: 'difficulty', header: 'Difficulty', width: 12 },
+  { key: 'opportunityScore', header: 'Opportunity Score', width: 18 },
+  { key: 'competitorCount', header: 'Competitors', width: 12 },
+  { key: 'sourceAppName', header: 'Source App', width: 25 },
+  { key: 'relatedTerms', header: 'Related Terms', width: 50 },
+  { key: 'isTracked', header: 'Tracked', width: 10 },
+  { key: 'errorMessage', header: 'Error', width: 30 },
+  { key: 'searchedAt', header: 'Searched At', width: 22 },
+];
+
+/**
+ * @route   GET /api/jobs/:id/results
+ * @desc    Filtered, sorted, cursor-paginated job results, or a streamed export
+ * @query   status, cycle, sourceAppId, keyword, country, minPopularity, maxPopularity, minDifficulty, maxDifficulty,
+ *          minOpportunityScore, maxOpportunityScore, sortBy, order, cursor, limit,
+ *          format (json | csv | ndjson | xlsx, default json)
+ */
+router.get(
+  '/:id/results',
+  [
+    query('status').optional().isIn(['success', 'error', 'skipped']),
+    query('cycle').optional().isInt({ min: 1 }).toInt(),
+    query('sourceAppId').optional().trim(),
+    query('keyword').optional().trim(),
+    query('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
+    query([
+      'minPopularity', 'maxPopularity',
+      'minDifficulty', 'maxDifficulty',
+      'minOpportunityScore', 'maxOpportunityScore',
+    ]).optional().isFloat().toFloat(),
+    query('sortBy')
+      .optional()
+      .isIn(['opportunityScore', 'popularity', 'difficulty', 'competitorCount', 'keyword', 'cycleNumber', 'searchedAt']),
+    query('order').optional().isIn(['asc', 'desc']),
+    query('cursor').optional().trim(),
+    query('limit').optional().isInt({ min: 1, max: 500 }).toInt(),
+    query('format').optional().isIn(['json', 'csv', 'ndjson', 'xlsx']),
+  ],
+  validate,
+  async (req, res) => {
+    const { sortBy, order, cursor, limit, format = 'json', ...filters } = req.query;
+
+    try {
+      if (format === 'json') {
+        const page = await jobRunnerService.getJobResults(req.params.id, filters, { sortBy, order, cursor, limit });
+        return res.json(page);
+      }
+
+      // Fail with a proper status before streaming starts
+      const job = await jobRunnerService.getJobDetails(req.params.id, { includeResults: false });
+      const filename = `${job.name.replace(/[^\w-]+/g, '_')}-results`;
+
+      setExportHeaders(res, format, filename);
+      const rows = jobRunnerService.iterateJobResults(req.params.id, filters, { sortBy, order });
+      await exportWriters[format](res, RESULT_EXPORT_COLUMNS, rows);
+    } catch (error) {
+      if (res.headersSent) {
+        logger.error('Error streaming job results export:', error);
+        res.destroy(error);
+      } else if (error.message === 'Job not found') {
+        res.status(404).json({ error: error.message });
+      } else {
+        logger.error('Error getting job results:', error);
+        res.status(500).json({ error: error.message });
+      }
+    }
+  }
+);
+
+/**
+ * @route   GET /api/jobs/:id/events
+ * @desc    SSE stream of cycle, result, error and status events for one job
+ * @query   lastEventId (optional)
+ */
+router.get('/:id/events', async (req, res) => {
+  try {
+    await streamJobEvents(req, res, { jobId: req.params.id });
+  } catch (error) {
+    logger.error('Error streaming job events:', error);
+    if (!res.headersSent) res.status(500).json({ error: error.message });
+    else res.end();
+  }
+});
+
+/**
+ * @route   PATCH /api/jobs/:id
+ * @desc    Edit a pending or paused job; only the fields sent are changed
+ * @body    name, notes, plus any configuration field accepted by POST /api/jobs
+ */
+router.patch(
+  '/:id',
+  [
+    body('name').optional().trim().notEmpty().withMessage('Job name cannot be empty'),
+    ...jobConfigValidators,
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const job = await jobRunnerService.updateJob(req.params.id, req.body);
+      res.json(job);
+    } catch (error) {
+      if (error.message === 'Job not found') {
+        res.status(404).json({ error: error.message });
+      } else if (JOB_UPDATE_ERRORS.includes(error.message)) {
+        res.status(400).json({ error: error.message });
+      } else {
+        logger.error('Error updating job:', error);
+        res.status(500).json({ error: error.message });
+      }
+    }
+  }
+);
+
+/**
+ * @route   POST /api/jobs/:id/clone
+ * @desc    Create a new pending job with the same configuration
+ * @body    name (optional, defaults to "<name> (copy)"), sessionId (optional)
+ */
+router.post(
+  '/:id/clone',
+  [
+    body('name').optional().trim(),
+    body('sessionId').optional().trim(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const job = await jobRunnerService.cloneJob(req.params.id, req.body);
+      res.status(201).json(job);
+    } catch (error) {
+      if (error.message === 'Job not found') {
+        res.status(404).json({ error: error.message });
+      } else {
+        logger.error('Error cloning job:', error);
+        res.status(500).json({ error: error.message });
+      }
+    }
+  }
+);
+
+/**
+ * @route   POST /api/jobs/:id/template
+ * @desc    Save a job's configuration as a template
+ * @body    name (optional, defaults to the job name), sessionId (optional)
+ */
+router.post(
+  '/:id/template',
+  [
+    body('name').optional().trim(),
+    body('sessionId').optional().trim(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const template = await jobTemplateService.createTemplateFromJob(req.params.id, req.body);
+      res.status(201).json(template);
+    } catch (error) {
+      if (error.message === 'Job not found') {
+        res.status(404).json({ error: error.message });
+      } else {
+        logger.error('Error saving job as template:', error);
+        res.status(500).json({ error: error.message });
+      }
+    }
+  }
+);
+
 /**
  * @route   POST /api/jobs/:id/start
  * @desc    Start a job
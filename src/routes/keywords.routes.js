@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { query, param, body, validationResult } from 'express-validator';
-import { keywordService } from '../services/keyword.service.js';
+import { keywordService, KEYWORD_MODELS, KEYWORD_MODEL_VERSION } from '../services/keyword.service.js';
+import { appleSearchAdsService } from '../services/appleSearchAds.service.js';
+import { longTailService } from '../services/longTail.service.js';
+import { config } from '../config/index.js';
 import { cacheMiddleware } from '../utils/cache.js';
 import { logger } from '../utils/logger.js';
 
@@ -100,24 +103,49 @@ router.get(
 
 /**
  * @route   GET /api/keywords/long-tail
- * @desc    Find long-tail keyword opportunities
- * @query   keyword (required), country (optional)
+ * @desc    Explore long-tail keywords as an autocomplete tree (seed + letter / seed + space + letter, recursively)
+ * @query   keyword (required), country (optional), depth (optional, 1-LONG_TAIL_MAX_DEPTH, default: 2),
+ *          maxChildren (optional, 1-20, default: 8), maxNodes (optional, 1-200, default: 40),
+ *          analyze (optional, default: true - attach popularity/difficulty/opportunity to every node)
  */
 router.get(
   '/long-tail',
   [
     query('keyword').trim().notEmpty().withMessage('Seed keyword is required'),
     query('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
+    query('depth')
+      .optional()
+      .isInt({ min: 1, max: config.longTail.maxDepth })
+      .withMessage(`Depth must be 1-${config.longTail.maxDepth}`)
+      .toInt(),
+    query('maxChildren').optional().isInt({ min: 1, max: 20 }).toInt(),
+    query('maxNodes').optional().isInt({ min: 1, max: 200 }).toInt(),
+    query('analyze').optional().isBoolean().toBoolean(),
   ],
   validate,
   cacheMiddleware('keyword-longtail', 3600),
   async (req, res) => {
     try {
-      const { keyword, country = 'us' } = req.query;
-      const opportunities = await keywordService.findLongTailKeywords(keyword, country);
+      const { keyword, country = 'us', depth, maxChildren, maxNodes, analyze } = req.query;
+      const { tree, stats } = await longTailService.exploreTree(keyword, country, {
+        depth,
+        maxChildren,
+        maxNodes,
+        analyze,
+      });
+
+      // Flat list of analyzed long-tail keywords that look like good opportunities
+      const opportunities = longTailService.flatten(tree)
+        .filter((node) => node.depth > 0 && node.metrics)
+        .filter((node) => node.metrics.difficulty < 50 && node.metrics.popularity > 15)
+        .map((node) => ({ keyword: node.keyword, depth: node.depth, ...node.metrics }))
+        .sort((a, b) => b.opportunityScore - a.opportunityScore);
+
       res.json({
         seedKeyword: keyword,
         country,
+        tree,
+        stats,
         opportunities,
       });
     } catch (error) {
@@ -186,4 +214,82 @@ router.get(
   }
 );
 
+/**
+ * @route   GET /api/keywords/recommendations
+ * @desc    Apple Search Ads keyword recommendations with real popularity (requires Search Ads credentials)
+ * @query   keyword (required), country (optional, default: us)
+ */
+router.get(
+  '/recommendations',
+  [
+    query('keyword').trim().notEmpty().withMessage('Keyword is required'),
+    query('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
+  ],
+  validate,
+  // Checked before the cache so the error is never cached as a response
+  (req, res, next) => {
+    if (!appleSearchAdsService.isConfigured()) {
+      return res.status(503).json({
+        error: 'Apple Search Ads is not configured. Set the APPLE_* credentials to get keyword recommendations.',
+      });
+    }
+    next();
+  },
+  cacheMiddleware('keyword-recommendations', 3600),
+  async (req, res) => {
+    try {
+      const { keyword, country = 'us' } = req.query;
+      const recommendations = await appleSearchAdsService.getRecommendations(keyword, country);
+      res.json({
+        keyword,
+        country,
+        source: 'apple_search_ads',
+        recommendations,
+      });
+    } catch (error) {
+      logger.error('Search Ads recommendations error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+/**
+ * @route   GET /api/keywords/models
+ * @desc    List keyword metric models and the current one
+ */
+router.get('/models', (req, res) => {
+  res.json({
+    current: KEYWORD_MODEL_VERSION,
+    models: Object.entries(KEYWORD_MODELS).map(([version, model]) => ({
+      version,
+      description: model.description,
+    })),
+  });
+});
+
+/**
+ * @route   POST /api/keywords/recompute
+ * @desc    Re-derive difficulty and popularity of stored analyses from their archived raw inputs (no App Store calls)
+ * @body    modelVersion (optional, default: current model), country (optional), keyword (optional)
+ */
+router.post(
+  '/recompute',
+  [
+    body('modelVersion').optional().isIn(Object.keys(KEYWORD_MODELS)).withMessage('Unknown keyword model'),
+    body('country').optional().isLength({ min: 2, max: 2 }).toLowerCase(),
+    body('keyword').optional().trim().notEmpty(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const { modelVersion, country, keyword } = req.body;
+      const result = await keywordService.recomputeAnalyses({ modelVersion, country, keyword });
+      res.json(result);
+    } catch (error) {
+      logger.error('Keyword recompute error:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,90 @@
+import { Router } from 'express';
+import { body, validationResult } from 'express-validator';
+import { scoringService, SCORING_FORMULAS } from '../services/scoring.service.js';
+import { logger } from '../utils/logger.js';
+
+const router = Router();
+
+// Validation middleware
+const validate = (req, res, next) => {
+  const errors = validationResult(req);
+  if (!errors.isEmpty()) {
+    return res.status(400).json({ errors: errors.array() });
+  }
+  next();
+};
+
+/**
+ * @route   GET /api/scoring/formulas
+ * @desc    List the available opportunity scoring formulas and their default weights
+ */
+router.get('/formulas', (req, res) => {
+  res.json({ formulas: scoringService.listFormulas() });
+});
+
+/**
+ * @route   GET /api/scoring/settings
+ * @desc    Get the active formula, weights and score version
+ */
+router.get('/settings', async (req, res) => {
+  try {
+    const settings = await scoringService.getSettings();
+    res.json(settings);
+  } catch (error) {
+    logger.error('Error getting scoring settings:', error);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * @route   PUT /api/scoring/settings
+ * @desc    Change the active formula and/or weights (bumps the score version)
+ * @body    formula (optional), weights (optional, e.g. { popularity: 0.7, difficulty: 0.3 })
+ */
+router.put(
+  '/settings',
+  [
+    body('formula').optional().isIn(Object.keys(SCORING_FORMULAS)).withMessage('Unknown scoring formula'),
+    body('weights').optional().isObject().withMessage('Weights must be an object'),
+    body('weights.*').isFloat({ min: 0, max: 100 }).withMessage('Weights must be numbers between 0 and 100').toFloat(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const { formula, weights } = req.body;
+      const settings = await scoringService.updateSettings({ formula, weights });
+      res.json(settings);
+    } catch (error) {
+      if (error.message.startsWith('Unknown weight')) {
+        res.status(400).json({ error: error.message });
+      } else {
+        logger.error('Error updating scoring settings:', error);
+        res.status(500).json({ error: error.message });
+      }
+    }
+  }
+);
+
+/**
+ * @route   POST /api/scoring/recompute
+ * @desc    Rescore global keyword bank entries, job results and tracked keywords scored with an older formula or weights
+ * @body    country (optional) - only recompute this storefront
+ */
+router.post(
+  '/recompute',
+  [
+    body('country').optional().isLength({ min: 2, max: 2 }).withMessage('Country must be a 2-letter code').toLowerCase(),
+  ],
+  validate,
+  async (req, res) => {
+    try {
+      const result = await scoringService.recompute({ country: req.body.country });
+      res.json(result);
+    } catch (error) {
+      logger.error('Error recomputing opportunity scores:', error);
+      res.status(500).json({ error: error.message });
+    }
+  }
+);
+
+export default router;
@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { body, param, query, validationResult } from 'express-validator';
 import { prisma } from '../db/prisma.js';
+import { scoringService } from '../services/scoring.service.js';
 
 const router = Router();
 
@@ -44,7 +45,7 @@ router.post('/keywords', [
   body('keywords.*.country').optional({ values: 'null' }).isLength({ min: 2, max: 2 }),
   body('keywords.*.popularity').optional({ values: 'null' }).isInt({ min: 0, max: 100 }),
   body('keywords.*.difficulty').optional({ values: 'null' }).isInt({ min: 0, max: 100 }),
-  body('keywords.*.opportunityScore').optional({ values: 'null' }).isInt({ min: 0, max: 100 }),
+  body('keywords.*.opportunityScore').optional({ values: 'null' }).isFloat({ min: 0, max: 100 }),
   body('keywords.*.competitorCount').optional({ values: 'null' }).isInt({ min: 0 }),
   body('sessionId').optional({ values: 'null' }).trim(),
 ], validate, async (req, res) => {
@@ -58,6 +59,10 @@ router.post('/keywords', [
 
     for (const kw of keywords) {
       console.log('Tracking keyword:', kw.keyword);
+      // Score with the active formula when the metrics are known so tracked scores share the bank's scale
+      const { opportunityScore, scoreVersion } = kw.popularity != null && kw.difficulty != null
+        ? await scoringService.score(kw.popularity, kw.difficulty)
+        : { opportunityScore: kw.opportunityScore, scoreVersion: null };
       const tracked = await prisma.trackedKeyword.upsert({
         where: {
           keyword_country_sessionId: {
@@ -69,7 +74,8 @@ router.post('/keywords', [
         update: {
           popularity: kw.popularity,
           difficulty: kw.difficulty,
-          opportunityScore: kw.opportunityScore,
+          opportunityScore,
+          scoreVersion,
           competitorCount: kw.competitorCount,
         },
         create: {
@@ -77,7 +83,8 @@ router.post('/keywords', [
           country: kw.country || 'us',
           popularity: kw.popularity,
           difficulty: kw.difficulty,
-          opportunityScore: kw.opportunityScore,
+          opportunityScore,
+          scoreVersion,
           competitorCount: kw.competitorCount,
           sessionId: effectiveSessionId,
         },
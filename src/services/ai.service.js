@@ -26,7 +26,7 @@ export class AIService {
     }
 
     const cacheKey = `ai:suggestions:${Buffer.from(appDescription).toString('base64').slice(0, 50)}:${category}:${country}`;
-    const cached = cache.get(cacheKey);
+    const cached = await cache.get(cacheKey);
     if (cached) return cached;
 
     try {
@@ -99,7 +99,7 @@ Provide at least 20 keyword suggestions.`;
         logger.error('Failed to save AI suggestions to database:', dbError.message);
       }
 
-      cache.set(cacheKey, resultData, 7200); // 2 hour cache
+      cache.set(cacheKey, resultData);
       return resultData;
     } catch (error) {
       logger.error('Error generating AI suggestions:', error.message);
@@ -132,6 +132,7 @@ Provide at least 20 keyword suggestions.`;
 
 MAIN APP:
 Name: ${mainApp.name}
+Subtitle: ${mainAppKeywords.subtitle || 'Unknown'}
 Category: ${mainApp.category}
 Description: ${mainApp.description?.slice(0, 500) || 'No description'}
 Current Keywords (extracted): ${mainAppKeywords.keywords.slice(0, 20).map(k => k.keyword).join(', ')}
@@ -139,6 +140,7 @@ Current Keywords (extracted): ${mainAppKeywords.keywords.slice(0, 20).map(k => k
 COMPETITORS:
 ${competitors.map((c, i) => `
 ${i + 1}. ${c.name}
+Subtitle: ${competitorKeywordsData[i]?.subtitle || 'Unknown'}
 Category: ${c.category}
 Rating: ${c.rating || 'N/A'} (${c.ratingCount || 0} reviews)
 Keywords: ${competitorKeywordsData[i]?.keywords.slice(0, 15).map(k => k.keyword).join(', ')}
@@ -428,6 +430,7 @@ Return as JSON:
 
 YOUR APP (Client):
 Name: ${myApp.name}
+Subtitle: ${myAppKeywords.subtitle || 'Unknown'}
 Category: ${myApp.category}
 Description: ${myApp.description?.slice(0, 800) || 'No description'}
 Rating: ${myApp.rating || 'N/A'} (${myApp.ratingCount || 0} reviews)
@@ -435,6 +438,7 @@ Keywords (extracted): ${myAppKeywords.keywords.slice(0, 25).map(k => k.keyword).
 
 COMPETITOR APP:
 Name: ${competitorApp.name}
+Subtitle: ${competitorKeywords.subtitle || 'Unknown'}
 Category: ${competitorApp.category}
 Description: ${competitorApp.description?.slice(0, 800) || 'No description'}
 Rating: ${competitorApp.rating || 'N/A'} (${competitorApp.ratingCount || 0} reviews)
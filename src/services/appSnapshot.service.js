@@ -0,0 +1,153 @@
+import { prisma } from '../db/prisma.js';
+import { logger } from '../utils/logger.js';
+
+// Metadata fields whose changes are recorded
+const TRACKED_FIELDS = [
+  'name',
+  'description',
+  'releaseNotes',
+  'version',
+  'price',
+  'currency',
+  'rating',
+  'ratingCount',
+  'category',
+  'icon',
+  'screenshots',
+  'ipadScreenshots',
+  'languages',
+  'contentRating',
+];
+// Free-text fields, diffed with a word-overlap similarity so rewrites stand out from small edits
+const TEXT_FIELDS = new Set(['name', 'description', 'releaseNotes']);
+
+const words = (text) => new Set((text || '').toLowerCase().split(/\W+/).filter(Boolean));
+
+/**
+ * AppSnapshot Service - App metadata history
+ * getAppById hands every fresh lookup to record(), which stores a snapshot (with field-level diffs
+ * against the previous one) only when a tracked field changed.
+ */
+export class AppSnapshotService {
+  constructor() {
+    // Serializes writes per app and storefront so concurrent lookups don't record the same change twice
+    this.queues = new Map();
+  }
+
+  /**
+   * Record an app lookup, storing a snapshot if anything tracked changed
+   * Never throws - history must not break app lookups.
+   * @returns {Promise<Object|null>} The new snapshot, or null when nothing changed
+   */
+  record(app, country = 'us') {
+    const key = `${app.id}:${country}`;
+    const previous = this.queues.get(key) || Promise.resolve();
+    const run = previous.then(() => this.write(app, country)).catch((error) => {
+      logger.error(`Failed to record snapshot for app ${app.id}: ${error.message}`);
+      return null;
+    });
+
+    this.queues.set(key, run);
+    run.finally(() => {
+      if (this.queues.get(key) === run) this.queues.delete(key);
+    });
+    return run;
+  }
+
+  async write(app, country) {
+    const appId = String(app.id);
+    const data = this.pickTracked(app);
+
+    const latest = await prisma.appSnapshot.findFirst({
+      where: { appId, country },
+      orderBy: { observedAt: 'desc' },
+    });
+
+    const changes = latest ? this.diff(JSON.parse(latest.data), data) : null;
+    if (latest && changes.length === 0) return null;
+
+    const snapshot = await prisma.appSnapshot.create({
+      data: {
+        appId,
+        country,
+        version: data.version ?? null,
+        data: JSON.stringify(data),
+        changes: changes ? JSON.stringify(changes) : null,
+      },
+    });
+
+    if (changes) {
+      logger.info(`App ${appId} (${country}) changed: ${changes.map((change) => change.field).join(', ')}`);
+    }
+    return snapshot;
+  }
+
+  pickTracked(app) {
+    return Object.fromEntries(TRACKED_FIELDS.map((field) => [field, app[field] ?? null]));
+  }
+
+  /**
+   * Field-level differences between two snapshots' data
+   * @returns {Array} [{ field, from, to, similarity? }] - similarity (0-1) is set for free-text fields
+   */
+  diff(before, after) {
+    const changes = [];
+    for (const field of TRACKED_FIELDS) {
+      const from = before[field] ?? null;
+      const to = after[field] ?? null;
+      if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+      const change = { field, from, to };
+      if (TEXT_FIELDS.has(field)) {
+        change.similarity = this.similarity(from, to);
+      }
+      changes.push(change);
+    }
+    return changes;
+  }
+
+  /**
+   * Share of distinct words the two texts have in common (Jaccard index), rounded to 2 decimals
+   */
+  similarity(a, b) {
+    const left = words(a);
+    const right = words(b);
+    const union = new Set([...left, ...right]);
+    if (union.size === 0) return 1;
+
+    const shared = [...left].filter((word) => right.has(word)).length;
+    return Math.round((shared / union.size) * 100) / 100;
+  }
+
+  /**
+   * Change timeline for an app, newest first
+   * @returns {Promise<Object>} { appId, country, firstSeen, snapshotCount, changes: [{ observedAt, version, changes }] }
+   */
+  async getChanges(appId, country = 'us', limit = 50) {
+    const where = { appId: String(appId), country };
+    const [snapshotCount, first, snapshots] = await Promise.all([
+      prisma.appSnapshot.count({ where }),
+      prisma.appSnapshot.findFirst({ where, orderBy: { observedAt: 'asc' } }),
+      prisma.appSnapshot.findMany({
+        where: { ...where, changes: { not: null } },
+        orderBy: { observedAt: 'desc' },
+        take: limit,
+      }),
+    ]);
+
+    return {
+      appId: String(appId),
+      country,
+      firstSeen: first?.observedAt || null,
+      snapshotCount,
+      changes: snapshots.map((snapshot) => ({
+        id: snapshot.id,
+        observedAt: snapshot.observedAt,
+        version: snapshot.version,
+        changes: JSON.parse(snapshot.changes),
+      })),
+    };
+  }
+}
+
+export const appSnapshotService = new AppSnapshotService();
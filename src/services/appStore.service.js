@@ -2,9 +2,43 @@ import axios from 'axios';
 import * as cheerio from 'cheerio';
 import { logger } from '../utils/logger.js';
 import { cache } from '../utils/cache.js';
+import { UpstreamClient } from '../utils/upstream.js';
+import { parseProductPage } from '../utils/productPage.js';
+import { appSnapshotService } from './appSnapshot.service.js';
+import { config } from '../config/index.js';
 
 const APP_STORE_BASE_URL = 'https://itunes.apple.com';
 const SEARCH_HINTS_URL = 'https://search.itunes.apple.com/WebObjects/MZSearchHints.woa/wa/hints';
+const APP_STORE_WEB_URL = 'https://apps.apple.com';
+export const REVIEW_FEED_MAX_PAGES = 10;
+// App Store genre IDs by category slug ("all" is the overall chart)
+export const CATEGORY_IDS = {
+  all: null,
+  games: 6014,
+  business: 6000,
+  education: 6017,
+  entertainment: 6016,
+  finance: 6015,
+  food: 6023,
+  health: 6013,
+  lifestyle: 6012,
+  music: 6011,
+  navigation: 6010,
+  news: 6009,
+  photo: 6008,
+  productivity: 6007,
+  social: 6005,
+  sports: 6004,
+  travel: 6003,
+  utilities: 6002,
+  weather: 6001,
+};
+// Top chart RSS feeds by chart type
+export const CHART_FEEDS = {
+  free: 'topfreeapplications',
+  paid: 'toppaidapplications',
+  grossing: 'topgrossingapplications',
+};
 
 export class AppStoreService {
   constructor() {
@@ -14,6 +48,15 @@ export class AppStoreService {
         'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
       },
     });
+    // All App Store traffic goes through one budget, whoever is asking
+    this.upstream = new UpstreamClient(this.axios, config.upstream);
+  }
+
+  /**
+   * Current upstream load and limiter state
+   */
+  getUpstreamStats() {
+    return this.upstream.getStats();
   }
 
   /**
@@ -21,11 +64,11 @@ export class AppStoreService {
    */
   async searchApps(term, country = 'us', limit = 25) {
     const cacheKey = `search:${term}:${country}:${limit}`;
-    const cached = cache.get(cacheKey);
+    const cached = await cache.get(cacheKey);
     if (cached) return cached;
 
     try {
-      const response = await this.axios.get(`${APP_STORE_BASE_URL}/search`, {
+      const response = await this.upstream.get(`${APP_STORE_BASE_URL}/search`, {
         params: {
           term,
           country,
@@ -60,7 +103,7 @@ export class AppStoreService {
         contentRating: app.contentAdvisoryRating,
       }));
 
-      cache.set(cacheKey, results, 1800); // 30 min cache
+      cache.set(cacheKey, results);
       return results;
     } catch (error) {
       logger.error('Error searching apps:', error.message);
@@ -73,11 +116,11 @@ export class AppStoreService {
    */
   async getAppById(appId, country = 'us') {
     const cacheKey = `app:${appId}:${country}`;
-    const cached = cache.get(cacheKey);
+    const cached = await cache.get(cacheKey);
     if (cached) return cached;
 
     try {
-      const response = await this.axios.get(`${APP_STORE_BASE_URL}/lookup`, {
+      const response = await this.upstream.get(`${APP_STORE_BASE_URL}/lookup`, {
         params: {
           id: appId,
           country,
@@ -119,7 +162,10 @@ export class AppStoreService {
         supportedDevices: app.supportedDevices,
       };
 
-      cache.set(cacheKey, result, 3600); // 1 hour cache
+      // Every fresh lookup feeds the metadata change history
+      await appSnapshotService.record(result, country);
+
+      cache.set(cacheKey, result);
       return result;
     } catch (error) {
       logger.error('Error fetching app:', error.message);
@@ -127,18 +173,81 @@ export class AppStoreService {
     }
   }
 
+  /**
+   * Get every app a developer publishes in a storefront (App.developerId is the iTunes artistId)
+   * @returns {Promise<Object>} { developer: { id, name, url }, country, apps } - apps sorted by rating count
+   */
+  async getDeveloperApps(developerId, country = 'us') {
+    const cacheKey = `developer:${developerId}:${country}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const response = await this.upstream.get(`${APP_STORE_BASE_URL}/lookup`, {
+        params: {
+          id: developerId,
+          entity: 'software',
+          country,
+          limit: 200,
+        },
+      });
+
+      // The first result is the developer itself, followed by their apps
+      const artist = response.data.results.find((result) => result.wrapperType === 'artist');
+      if (!artist) {
+        throw new Error('Developer not found');
+      }
+
+      const apps = response.data.results
+        .filter((result) => result.wrapperType === 'software')
+        .map((app) => ({
+          id: app.trackId,
+          bundleId: app.bundleId,
+          name: app.trackName,
+          icon: app.artworkUrl512 || app.artworkUrl100,
+          price: app.price,
+          currency: app.currency,
+          rating: app.averageUserRating,
+          ratingCount: app.userRatingCount,
+          version: app.version,
+          category: app.primaryGenreName,
+          url: app.trackViewUrl,
+          releaseDate: app.releaseDate,
+          currentVersionReleaseDate: app.currentVersionReleaseDate,
+        }))
+        .sort((a, b) => (b.ratingCount || 0) - (a.ratingCount || 0));
+
+      const result = {
+        developer: {
+          id: artist.artistId,
+          name: artist.artistName,
+          url: artist.artistLinkUrl,
+        },
+        country,
+        apps,
+      };
+
+      cache.set(cacheKey, result);
+      return result;
+    } catch (error) {
+      if (error.message === 'Developer not found') throw error;
+      logger.error('Error fetching developer apps:', error.message);
+      throw new Error(`Failed to fetch developer apps: ${error.message}`);
+    }
+  }
+
   /**
    * Get autocomplete/search suggestions from App Store
    * This provides keyword hints with priority scores
    */
   async getSearchSuggestions(term, country = 'us') {
     const cacheKey = `suggestions:${term}:${country}`;
-    const cached = cache.get(cacheKey);
+    const cached = await cache.get(cacheKey);
     if (cached) return cached;
 
     try {
       // Apple's search hints API
-      const response = await this.axios.get(SEARCH_HINTS_URL, {
+      const response = await this.upstream.get(SEARCH_HINTS_URL, {
         params: {
           clientApplication: 'Software',
           term,
@@ -158,7 +267,7 @@ export class AppStoreService {
         });
       }
 
-      cache.set(cacheKey, suggestions, 3600);
+      cache.set(cacheKey, suggestions);
       return suggestions;
     } catch (error) {
       logger.error('Error fetching suggestions:', error.message);
@@ -169,19 +278,26 @@ export class AppStoreService {
 
   /**
    * Get top apps in a category
+   * @param {string} chart - free, paid or grossing (see CHART_FEEDS)
+   * @param {Object} options - fresh (skip the cached feed; the fetched one is cached as usual)
    */
-  async getTopApps(category = 'all', country = 'us', limit = 100) {
-    const cacheKey = `top:${category}:${country}:${limit}`;
-    const cached = cache.get(cacheKey);
-    if (cached) return cached;
+  async getTopApps(category = 'all', country = 'us', limit = 100, chart = 'free', options = {}) {
+    const { fresh = false } = options;
+    const cacheKey = `top:${chart}:${category}:${country}:${limit}`;
+    if (!fresh) {
+      const cached = await cache.get(cacheKey);
+      if (cached) return cached;
+    }
 
     try {
       const genreId = this.getCategoryId(category);
-      const response = await this.axios.get(
-        `${APP_STORE_BASE_URL}/${country}/rss/topfreeapplications/${genreId ? `genre=${genreId}/` : ''}limit=${limit}/json`
+      const response = await this.upstream.get(
+        `${APP_STORE_BASE_URL}/${country}/rss/${CHART_FEEDS[chart]}/${genreId ? `genre=${genreId}/` : ''}limit=${limit}/json`
       );
 
-      const apps = response.data.feed.entry.map((entry, index) => ({
+      // A chart with a single app comes back as an object, an empty one without entries
+      const entries = [].concat(response.data.feed.entry || []);
+      const apps = entries.map((entry, index) => ({
         rank: index + 1,
         id: entry.id.attributes['im:id'],
         name: entry['im:name'].label,
@@ -194,7 +310,7 @@ export class AppStoreService {
         currency: entry['im:price'].attributes.currency,
       }));
 
-      cache.set(cacheKey, apps, 3600);
+      cache.set(cacheKey, apps);
       return apps;
     } catch (error) {
       logger.error('Error fetching top apps:', error.message);
@@ -202,6 +318,69 @@ export class AppStoreService {
     }
   }
 
+  /**
+   * Get one page of an app's customer reviews from the iTunes RSS feed (most recent first)
+   * The feed serves at most REVIEW_FEED_MAX_PAGES pages of 50 reviews.
+   * @returns {Promise<Array>} Reviews; empty once the page is past the last review
+   */
+  async getCustomerReviews(appId, country = 'us', page = 1) {
+    const cacheKey = `reviews:${appId}:${country}:${page}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) return cached;
+
+    try {
+      const response = await this.upstream.get(
+        `${APP_STORE_BASE_URL}/${country}/rss/customerreviews/page=${page}/id=${appId}/sortby=mostrecent/json`
+      );
+
+      // A single entry comes back as an object, and the first page may lead with the app itself
+      const entries = [].concat(response.data?.feed?.entry || []);
+      const reviews = entries
+        .filter((entry) => entry['im:rating'])
+        .map((entry) => ({
+          reviewId: entry.id.label,
+          rating: parseInt(entry['im:rating'].label),
+          version: entry['im:version']?.label || null,
+          title: entry.title?.label || '',
+          body: entry.content?.label || '',
+          author: entry.author?.name?.label || null,
+          voteCount: parseInt(entry['im:voteCount']?.label) || 0,
+          reviewedAt: entry.updated?.label,
+        }));
+
+      cache.set(cacheKey, reviews);
+      return reviews;
+    } catch (error) {
+      logger.error('Error fetching customer reviews:', error.message);
+      throw new Error(`Failed to fetch reviews: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the metadata only shown on an app's apps.apple.com product page
+   * (subtitle, promotional text, in-app events, ratings histogram, related apps)
+   * The raw HTML is cached so re-parsing never costs an extra request.
+   * @returns {Promise<Object>} { appId, country, url, ...parseProductPage() }
+   */
+  async getProductPage(appId, country = 'us') {
+    const cacheKey = `page:${appId}:${country}`;
+    const url = `${APP_STORE_WEB_URL}/${country}/app/id${appId}`;
+
+    try {
+      let html = await cache.get(cacheKey);
+      if (!html) {
+        const response = await this.upstream.get(url, { responseType: 'text' });
+        html = response.data;
+        cache.set(cacheKey, html);
+      }
+
+      return { appId: String(appId), country, url, ...parseProductPage(html) };
+    } catch (error) {
+      logger.error('Error fetching product page:', error.message);
+      throw new Error(`Failed to fetch product page: ${error.message}`);
+    }
+  }
+
   /**
    * Get apps ranking for a specific keyword
    */
@@ -231,10 +410,15 @@ export class AppStoreService {
    */
   async extractAppKeywords(appId, country = 'us') {
     try {
-      const app = await this.getAppById(appId, country);
+      // The lookup API has no subtitle; it comes from the product page when that can be read
+      const [app, page] = await Promise.all([
+        this.getAppById(appId, country),
+        this.getProductPage(appId, country).catch(() => null),
+      ]);
+      const subtitle = page?.subtitle || null;
       
-      // Extract keywords from title, subtitle (description first line), and description
-      const text = `${app.name} ${app.description}`.toLowerCase();
+      // Extract keywords from title, subtitle, and description
+      const text = `${app.name} ${subtitle || ''} ${app.description}`.toLowerCase();
       
       // Basic keyword extraction (will be enhanced by AI service)
       const words = text
@@ -261,6 +445,7 @@ export class AppStoreService {
       return {
         appId: app.id,
         appName: app.name,
+        subtitle,
         category: app.category,
         keywords,
       };
@@ -270,6 +455,38 @@ export class AppStoreService {
     }
   }
 
+  /**
+   * Extract multi-word phrases (n-grams) from free text
+   * Phrases may not start or end with a stop word; returned by frequency
+   * @param {string} text - Source text (app name, description...)
+   * @param {number} maxN - Longest phrase length in words
+   * @param {number} minFrequency - Drop phrases seen fewer times than this
+   */
+  extractPhrases(text, maxN = 3, minFrequency = 1) {
+    const words = text
+      .toLowerCase()
+      .replace(/[^\w\s]/g, ' ')
+      .split(/\s+/)
+      .filter(Boolean);
+
+    const phraseCount = {};
+    for (let n = 2; n <= maxN; n++) {
+      for (let i = 0; i + n <= words.length; i++) {
+        const gram = words.slice(i, i + n);
+        if (this.isStopWord(gram[0]) || this.isStopWord(gram[n - 1])) continue;
+        if (gram.some((word) => word.length < 2)) continue;
+
+        const phrase = gram.join(' ');
+        phraseCount[phrase] = (phraseCount[phrase] || 0) + 1;
+      }
+    }
+
+    return Object.entries(phraseCount)
+      .filter(([, count]) => count >= minFrequency)
+      .sort((a, b) => b[1] - a[1])
+      .map(([phrase]) => phrase);
+  }
+
   /**
    * Get storefront ID for a country
    */
@@ -303,28 +520,7 @@ export class AppStoreService {
    * Get category ID
    */
   getCategoryId(category) {
-    const categories = {
-      all: null,
-      games: 6014,
-      business: 6000,
-      education: 6017,
-      entertainment: 6016,
-      finance: 6015,
-      food: 6023,
-      health: 6013,
-      lifestyle: 6012,
-      music: 6011,
-      navigation: 6010,
-      news: 6009,
-      photo: 6008,
-      productivity: 6007,
-      social: 6005,
-      sports: 6004,
-      travel: 6003,
-      utilities: 6002,
-      weather: 6001,
-    };
-    return categories[category.toLowerCase()] || null;
+    return CATEGORY_IDS[category.toLowerCase()] || null;
   }
 
   /**
@@ -0,0 +1,179 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+// Apple accepts client secrets valid for up to 180 days; a short lifetime limits exposure if one leaks
+const CLIENT_SECRET_TTL_SECONDS = 24 * 3600;
+// Refresh access tokens this long before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60000;
+const CLIENT_SECRET_AUDIENCE = 'https://appleid.apple.com';
+
+const base64url = (value) => Buffer.from(typeof value === 'string' ? value : JSON.stringify(value)).toString('base64url');
+
+/**
+ * Apple Search Ads Service - OAuth client-credentials client for Search Ads keyword data
+ * Signs an ES256 client secret JWT with the API user's private key, exchanges it for an access token
+ * (cached until shortly before it expires) and calls the keyword popularity and recommendation endpoints.
+ */
+export class AppleSearchAdsService {
+  /**
+   * @param {Object} options - Same shape as config.apple (tests point authUrl/apiUrl at a mock server)
+   */
+  constructor(options = config.apple) {
+    this.options = options;
+    this.axios = axios.create({ timeout: 10000 });
+    this.clientSecret = null;
+    this.clientSecretExpiresAt = 0;
+    this.accessToken = null;
+    this.accessTokenExpiresAt = 0;
+    this.pendingToken = null;
+  }
+
+  /**
+   * Whether enough credentials are set to call Search Ads
+   */
+  isConfigured() {
+    const { teamId, keyId, clientId, clientSecret, privateKey, orgId, adamId } = this.options;
+    return Boolean(clientId && orgId && adamId && (clientSecret || (privateKey && teamId && keyId)));
+  }
+
+  /**
+   * Build (or reuse) the signed client secret JWT
+   * A pre-generated APPLE_CLIENT_SECRET is used as-is when no private key is configured.
+   */
+  getClientSecret() {
+    const { teamId, keyId, clientId, clientSecret, privateKey } = this.options;
+    if (!privateKey) return clientSecret;
+
+    const now = Math.floor(Date.now() / 1000);
+    if (this.clientSecret && this.clientSecretExpiresAt - now > 60) {
+      return this.clientSecret;
+    }
+
+    const header = { alg: 'ES256', kid: keyId };
+    const payload = {
+      sub: clientId,
+      aud: CLIENT_SECRET_AUDIENCE,
+      iat: now,
+      exp: now + CLIENT_SECRET_TTL_SECONDS,
+      iss: teamId,
+    };
+    const signingInput = `${base64url(header)}.${base64url(payload)}`;
+    const signature = crypto.sign('sha256', Buffer.from(signingInput), {
+      key: privateKey,
+      dsaEncoding: 'ieee-p1363', // JWS wants raw r||s, not DER
+    });
+
+    this.clientSecret = `${signingInput}.${signature.toString('base64url')}`;
+    this.clientSecretExpiresAt = payload.exp;
+    return this.clientSecret;
+  }
+
+  /**
+   * Get a cached access token, requesting a new one when it is missing or about to expire
+   * Concurrent callers share a single token request.
+   */
+  async getAccessToken() {
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt - TOKEN_EXPIRY_MARGIN_MS) {
+      return this.accessToken;
+    }
+
+    if (!this.pendingToken) {
+      this.pendingToken = this.requestAccessToken().finally(() => {
+        this.pendingToken = null;
+      });
+    }
+    return this.pendingToken;
+  }
+
+  async requestAccessToken() {
+    const body = new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: this.options.clientId,
+      client_secret: this.getClientSecret(),
+      scope: 'searchadsorg',
+    });
+
+    try {
+      const response = await this.axios.post(this.options.authUrl, body.toString(), {
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      });
+
+      this.accessToken = response.data.access_token;
+      this.accessTokenExpiresAt = Date.now() + (response.data.expires_in || 3600) * 1000;
+      logger.debug('Obtained Apple Search Ads access token');
+      return this.accessToken;
+    } catch (error) {
+      const reason = error.response?.data?.error || error.message;
+      throw new Error(`Apple Search Ads authentication failed: ${reason}`);
+    }
+  }
+
+  /**
+   * Call a Search Ads endpoint, refreshing the token once if it was rejected
+   */
+  async request(method, path, { params, data } = {}, retried = false) {
+    if (!this.isConfigured()) {
+      throw new Error('Apple Search Ads not configured. Please set the APPLE_* credentials.');
+    }
+
+    const token = await this.getAccessToken();
+    try {
+      const response = await this.axios.request({
+        method,
+        url: `${this.options.apiUrl}${path}`,
+        params,
+        data,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'X-AP-Context': `orgId=${this.options.orgId}`,
+        },
+      });
+      return response.data;
+    } catch (error) {
+      if (error.response?.status === 401 && !retried) {
+        this.accessToken = null;
+        return this.request(method, path, { params, data }, true);
+      }
+      const reason = error.response?.data?.error?.errors?.[0]?.message || error.message;
+      throw new Error(`Apple Search Ads request failed: ${reason}`);
+    }
+  }
+
+  /**
+   * Get Apple's search popularity (5-100) for up to 100 terms in one storefront
+   * @returns {Promise<Object>} lowercased term → popularity; terms Apple has no data for are omitted
+   */
+  async getPopularity(terms, country = 'us') {
+    const response = await this.request('post', '/keywords/popularities', {
+      params: { adamId: this.options.adamId },
+      data: { storefronts: [country.toUpperCase()], terms },
+    });
+
+    const popularity = {};
+    for (const entry of response.data || []) {
+      if (typeof entry.popularity === 'number') {
+        popularity[entry.name.toLowerCase()] = entry.popularity;
+      }
+    }
+    return popularity;
+  }
+
+  /**
+   * Get Search Ads keyword recommendations for a seed term
+   * @returns {Promise<Array>} [{ keyword, popularity }] - popularity is null when Apple omits it
+   */
+  async getRecommendations(text, country = 'us') {
+    const response = await this.request('get', '/keywords/recommendation', {
+      params: { adamId: this.options.adamId, text, storefronts: country.toUpperCase() },
+    });
+
+    return (response.data || []).map((entry) => ({
+      keyword: entry.name,
+      popularity: entry.popularity ?? null,
+    }));
+  }
+}
+
+export const appleSearchAdsService = new AppleSearchAdsService();
@@ -0,0 +1,289 @@
+import { appStoreService, CATEGORY_IDS, CHART_FEEDS } from './appStore.service.js';
+import { prisma } from '../db/prisma.js';
+import { logger } from '../utils/logger.js';
+import { config } from '../config/index.js';
+
+export const CHART_TYPES = Object.keys(CHART_FEEDS);
+export const CHART_CATEGORIES = Object.keys(CATEGORY_IDS);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Movers lists are capped so the biggest swings stand out
+const MOVERS_LIMIT = 10;
+
+const toDay = (date) => date.toISOString().slice(0, 10);
+const daysAgo = (days) => toDay(new Date(Date.now() - days * DAY_MS));
+
+/**
+ * Charts Service - Daily top chart snapshots and chart-rank history
+ * Once per UTC day the collector stores the top free, paid and grossing charts for every configured
+ * category and country as ChartEntry rows; history, movers and per-app timelines are read from them.
+ */
+export class ChartsService {
+  constructor() {
+    this.timer = null;
+    this.collecting = null;
+  }
+
+  /**
+   * Start the daily collector
+   * Checks every CHART_CHECK_INTERVAL_MS whether today's charts are stored, so a restart or a failed
+   * chart is picked up on the next check instead of waiting a day.
+   */
+  start() {
+    if (!config.charts.enabled || this.timer) return;
+
+    const unknown = config.charts.categories.filter((category) => !CHART_CATEGORIES.includes(category));
+    if (unknown.length > 0) {
+      logger.warn(`Ignoring unknown chart categories: ${unknown.join(', ')}`);
+    }
+
+    this.timer = setInterval(() => {
+      this.collectIfDue().catch((error) => {
+        logger.error('Error collecting charts:', error);
+      });
+    }, config.charts.checkIntervalMs);
+
+    this.collectIfDue().catch((error) => {
+      logger.error('Error collecting charts:', error);
+    });
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Every configured chart, category and country combination
+   */
+  getTargets() {
+    const categories = config.charts.categories.filter((category) => CHART_CATEGORIES.includes(category));
+    return CHART_TYPES.flatMap((chart) =>
+      categories.flatMap((category) => config.charts.countries.map((country) => ({ chart, category, country })))
+    );
+  }
+
+  /**
+   * Collect the configured charts that have no snapshot for today yet, then prune old snapshots
+   */
+  async collectIfDue() {
+    if (this.collecting) return this.collecting;
+
+    this.collecting = (async () => {
+      const day = toDay(new Date());
+      const stored = await prisma.chartEntry.groupBy({
+        by: ['chart', 'category', 'country'],
+        where: { day },
+      });
+      const done = new Set(stored.map((group) => `${group.chart}:${group.category}:${group.country}`));
+      const due = this.getTargets().filter((target) => !done.has(`${target.chart}:${target.category}:${target.country}`));
+      if (due.length === 0) return null;
+
+      const result = await this.collect(due, day);
+      await prisma.chartEntry.deleteMany({ where: { day: { lt: daysAgo(config.charts.retentionDays) } } });
+      return result;
+    })().finally(() => {
+      this.collecting = null;
+    });
+
+    return this.collecting;
+  }
+
+  /**
+   * Fetch and store a set of charts; a failing chart is logged and skipped
+   * @param {Array} targets - [{ chart, category, country }]
+   * @returns {Promise<Object>} { day, collected, failed: [{ chart, category, country, error }] }
+   */
+  async collect(targets, day = toDay(new Date())) {
+    const result = { day, collected: 0, failed: [] };
+
+    for (const target of targets) {
+      try {
+        await this.collectChart(target.chart, target.category, target.country, day);
+        result.collected++;
+      } catch (error) {
+        logger.error(`Failed to collect ${target.chart}/${target.category} chart (${target.country}): ${error.message}`);
+        result.failed.push({ ...target, error: error.message });
+      }
+    }
+
+    logger.info(`Collected ${result.collected} of ${targets.length} charts for ${day}`);
+    return result;
+  }
+
+  /**
+   * Store one chart's snapshot for a day, replacing an earlier one from the same day
+   * The feed is always fetched fresh so a re-collect never stores a cached chart under today's date.
+   * @returns {Promise<number>} Number of ranked apps stored
+   */
+  async collectChart(chart, category, country, day = toDay(new Date())) {
+    const apps = await appStoreService.getTopApps(category, country, config.charts.limit, chart, { fresh: true });
+    const where = { chart, category, country, day };
+
+    await prisma.$transaction([
+      prisma.chartEntry.deleteMany({ where }),
+      prisma.chartEntry.createMany({
+        data: apps.map((app) => ({
+          ...where,
+          rank: app.rank,
+          appId: String(app.id),
+          name: app.name,
+          developer: app.developer || null,
+          icon: app.icon || null,
+          price: parseFloat(app.price) || 0,
+          currency: app.currency || null,
+        })),
+      }),
+    ]);
+
+    return apps.length;
+  }
+
+  /**
+   * Collector configuration and the most recent stored day
+   */
+  async getStatus() {
+    const latest = await prisma.chartEntry.findFirst({ orderBy: { day: 'desc' }, select: { day: true } });
+    return {
+      enabled: config.charts.enabled,
+      charts: CHART_TYPES,
+      categories: CHART_CATEGORIES,
+      collected: {
+        categories: config.charts.categories.filter((category) => CHART_CATEGORIES.includes(category)),
+        countries: config.charts.countries,
+        limit: config.charts.limit,
+      },
+      lastDay: latest?.day || null,
+      collecting: !!this.collecting,
+    };
+  }
+
+  /**
+   * Stored daily snapshots of one chart, oldest first
+   * @param {Object} options - days (how far back), limit (deepest rank returned)
+   * @returns {Promise<Object>} { chart, category, country, snapshots: [{ day, entries }] }
+   */
+  async getHistory(chart, category, country = 'us', options = {}) {
+    const { days = 30, limit = 100 } = options;
+    const entries = await prisma.chartEntry.findMany({
+      where: { chart, category, country, day: { gte: daysAgo(days) }, rank: { lte: limit } },
+      orderBy: [{ day: 'asc' }, { rank: 'asc' }],
+    });
+
+    const snapshots = new Map();
+    for (const entry of entries) {
+      if (!snapshots.has(entry.day)) snapshots.set(entry.day, []);
+      snapshots.get(entry.day).push(this.toChartApp(entry));
+    }
+
+    return {
+      chart,
+      category,
+      country,
+      snapshots: [...snapshots].map(([day, dayEntries]) => ({ day, entries: dayEntries })),
+    };
+  }
+
+  /**
+   * The latest stored snapshot of a chart compared with the one before it
+   * Each entry gets its previous rank and change (positive = moved up); movers lists the biggest risers
+   * and fallers, apps new to the chart and apps that dropped out.
+   * @returns {Promise<Object>} { chart, category, country, day, previousDay, entries, movers }
+   */
+  async getLatest(chart, category, country = 'us') {
+    const where = { chart, category, country };
+    const days = await prisma.chartEntry.findMany({
+      where,
+      select: { day: true },
+      distinct: ['day'],
+      orderBy: { day: 'desc' },
+      take: 2,
+    });
+    const [day = null, previousDay = null] = days.map((row) => row.day);
+
+    const [current, previous] = await Promise.all(
+      [day, previousDay].map((snapshotDay) =>
+        snapshotDay ? prisma.chartEntry.findMany({ where: { ...where, day: snapshotDay }, orderBy: { rank: 'asc' } }) : []
+      )
+    );
+
+    const previousRanks = new Map(previous.map((entry) => [entry.appId, entry.rank]));
+    const entries = current.map((entry) => {
+      const previousRank = previousRanks.get(entry.appId) ?? null;
+      return {
+        ...this.toChartApp(entry),
+        previousRank,
+        change: previousRank === null ? null : previousRank - entry.rank,
+        isNew: previousDay !== null && previousRank === null,
+      };
+    });
+
+    const currentIds = new Set(current.map((entry) => entry.appId));
+    const moved = entries.filter((entry) => entry.change);
+
+    return {
+      chart,
+      category,
+      country,
+      day,
+      previousDay,
+      entries,
+      movers: {
+        risers: moved.filter((entry) => entry.change > 0).sort((a, b) => b.change - a.change).slice(0, MOVERS_LIMIT),
+        fallers: moved.filter((entry) => entry.change < 0).sort((a, b) => a.change - b.change).slice(0, MOVERS_LIMIT),
+        newEntrants: entries.filter((entry) => entry.isNew),
+        dropped: previous
+          .filter((entry) => !currentIds.has(entry.appId))
+          .map((entry) => ({ ...this.toChartApp(entry), previousRank: entry.rank })),
+      },
+    };
+  }
+
+  /**
+   * An app's rank over time in every stored chart it appeared in
+   * @returns {Promise<Object>} { appId, country, since, charts: [{ chart, category, bestRank, latestRank, lastSeen, points }] }
+   */
+  async getAppTimeline(appId, country = 'us', days = 30) {
+    const since = daysAgo(days);
+    const entries = await prisma.chartEntry.findMany({
+      where: { appId: String(appId), country, day: { gte: since } },
+      orderBy: { day: 'asc' },
+    });
+
+    const charts = new Map();
+    for (const entry of entries) {
+      const key = `${entry.chart}:${entry.category}`;
+      if (!charts.has(key)) {
+        charts.set(key, { chart: entry.chart, category: entry.category, bestRank: entry.rank, latestRank: null, lastSeen: null, points: [] });
+      }
+      const timeline = charts.get(key);
+      timeline.points.push({ day: entry.day, rank: entry.rank });
+      timeline.bestRank = Math.min(timeline.bestRank, entry.rank);
+      timeline.latestRank = entry.rank;
+      timeline.lastSeen = entry.day;
+    }
+
+    return {
+      appId: String(appId),
+      country,
+      since,
+      charts: [...charts.values()].sort((a, b) => a.bestRank - b.bestRank),
+    };
+  }
+
+  toChartApp(entry) {
+    return {
+      rank: entry.rank,
+      appId: entry.appId,
+      name: entry.name,
+      developer: entry.developer,
+      icon: entry.icon,
+      price: entry.price,
+      currency: entry.currency,
+    };
+  }
+}
+
+export const chartsService = new ChartsService();
@@ -21,9 +21,12 @@ export class GlobalKeywordBankService {
       difficulty,
       competitorCount,
       opportunityScore,
+      scoreVersion = null,
       topApps,
       relatedTerms,
       sessionId,
+      depth = 0,
+      explored = false,
     } = keywordData;
 
     try {
@@ -38,7 +41,7 @@ export class GlobalKeywordBankService {
       });
 
       if (existing) {
-        // Update existing entry with fresh data but preserve explored status
+        // Update existing entry with fresh data but preserve explored status unless it is being set
         return await prisma.globalKeywordBank.update({
           where: { id: existing.id },
           data: {
@@ -46,9 +49,11 @@ export class GlobalKeywordBankService {
             difficulty,
             competitorCount,
             opportunityScore,
+            scoreVersion,
             topApps: topApps ? JSON.stringify(topApps) : null,
             relatedTerms: relatedTerms ? JSON.stringify(relatedTerms) : null,
             analyzedAt: new Date(),
+            ...(explored && { explored }),
           },
         });
       }
@@ -62,11 +67,14 @@ export class GlobalKeywordBankService {
           difficulty,
           competitorCount,
           opportunityScore,
+          scoreVersion,
           topApps: topApps ? JSON.stringify(topApps) : null,
           relatedTerms: relatedTerms ? JSON.stringify(relatedTerms) : null,
           source,
           sourceId,
           sessionId,
+          depth,
+          explored,
         },
       });
     } catch (error) {
@@ -91,6 +99,50 @@ export class GlobalKeywordBankService {
     return results;
   }
 
+  /**
+   * Add unanalyzed candidate keywords, leaving keywords already in the bank untouched
+   * Candidates carry no metrics until a job analyzes them.
+   * @returns {Promise<number>} Number of keywords added
+   */
+  async addCandidates(keywords, country = 'us', source = 'manual', sourceId = null) {
+    const unique = [...new Set(keywords.map(kw => kw.toLowerCase().trim()).filter(Boolean))];
+    const existing = await prisma.globalKeywordBank.findMany({
+      where: { country, keyword: { in: unique } },
+      select: { keyword: true },
+    });
+    const known = new Set(existing.map(kw => kw.keyword));
+    const fresh = unique.filter(kw => !known.has(kw));
+
+    let added = 0;
+    for (const keyword of fresh) {
+      try {
+        await prisma.globalKeywordBank.create({
+          data: { keyword, country, source, sourceId },
+        });
+        added++;
+      } catch (error) {
+        // Unique constraint: the keyword was added concurrently
+        if (error.code !== 'P2002') throw error;
+      }
+    }
+    return added;
+  }
+
+  /**
+   * Get the unanalyzed candidates a source added, oldest first
+   * @param {string} source - e.g. 'review_mining'
+   * @param {string} sourceId - e.g. the mined app ID
+   */
+  async getCandidates(source, sourceId, country = 'us', limit = 100) {
+    const candidates = await prisma.globalKeywordBank.findMany({
+      where: { country, source, sourceId, popularity: null },
+      orderBy: { analyzedAt: 'asc' },
+      select: { keyword: true },
+      take: limit,
+    });
+    return candidates.map(kw => kw.keyword);
+  }
+
   /**
    * Get all analyzed keywords for a country
    */
@@ -139,13 +191,45 @@ export class GlobalKeywordBankService {
     }));
   }
 
+  /**
+   * Get the snowball crawl frontier - unexplored keywords shallower than maxDepth, breadth-first
+   * Pass a job ID as sourceId to crawl only the keywords that job added.
+   * Mined review phrases are unanalyzed candidates, not crawl roots, so they are left out.
+   */
+  async getSnowballFrontier(country = 'us', maxDepth = 3, limit = 10, sourceId = null) {
+    const where = {
+      country,
+      explored: false,
+      depth: { lt: maxDepth },
+      source: { not: 'review_mining' },
+    };
+    if (sourceId) {
+      where.sourceId = sourceId;
+    }
+
+    const keywords = await prisma.globalKeywordBank.findMany({
+      where,
+      orderBy: [
+        { depth: 'asc' },
+        { analyzedAt: 'asc' },
+      ],
+      take: limit,
+    });
+
+    return keywords.map(kw => ({
+      ...kw,
+      topApps: kw.topApps ? JSON.parse(kw.topApps) : [],
+      relatedTerms: kw.relatedTerms ? JSON.parse(kw.relatedTerms) : [],
+    }));
+  }
+
   /**
    * Get all unique keywords (lowercase) that have been analyzed
-   * Used to prevent duplicate analysis
+   * Used to prevent duplicate analysis; unanalyzed candidates are left for jobs to pick up
    */
   async getAnalyzedKeywordStrings(country = 'us') {
     const keywords = await prisma.globalKeywordBank.findMany({
-      where: { country },
+      where: { country, popularity: { not: null } },
       select: { keyword: true },
     });
     return keywords.map(kw => kw.keyword.toLowerCase());
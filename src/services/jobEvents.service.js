@@ -0,0 +1,112 @@
+import { EventEmitter } from 'events';
+import { prisma } from '../db/prisma.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+// Prune old events once every this many publishes
+const PRUNE_EVERY = 200;
+
+/**
+ * JobEvents Service - Persists and broadcasts keyword job progress events
+ * Events are stored so SSE clients can replay what they missed (Last-Event-ID),
+ * and emitted in-process so streams on this instance receive them immediately.
+ */
+export class JobEventsService {
+  constructor() {
+    this.emitter = new EventEmitter();
+    // Every open SSE stream adds a listener
+    this.emitter.setMaxListeners(0);
+    this.publishCount = 0;
+  }
+
+  /**
+   * Record an event for a job and notify live subscribers
+   * Never throws - progress reporting must not break job execution
+   */
+  async publish(job, type, data = {}) {
+    try {
+      const event = await prisma.jobEvent.create({
+        data: {
+          jobId: job.id,
+          sessionId: job.sessionId || null,
+          type,
+          data: JSON.stringify({ jobId: job.id, ...data }),
+        },
+      });
+
+      this.emitter.emit('event', this.format(event));
+
+      if (++this.publishCount % PRUNE_EVERY === 0) {
+        await this.prune();
+      }
+    } catch (error) {
+      logger.error(`Failed to publish job event ${type} for job ${job.id}: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get stored events after a given event ID
+   * @param {Object} filter - { jobId } or { sessionId }
+   * @param {number} afterId - Last event ID the client has seen
+   */
+  async getEventsSince(filter, afterId = 0, limit = 500) {
+    const events = await prisma.jobEvent.findMany({
+      where: { ...filter, id: { gt: afterId } },
+      orderBy: { id: 'asc' },
+      take: limit,
+    });
+    return events.map((event) => this.format(event));
+  }
+
+  /**
+   * ID of the newest stored event matching a filter (0 if none)
+   */
+  async getLatestEventId(filter) {
+    const latest = await prisma.jobEvent.findFirst({
+      where: filter,
+      orderBy: { id: 'desc' },
+      select: { id: true },
+    });
+    return latest?.id || 0;
+  }
+
+  /**
+   * Subscribe to live events matching a filter
+   * @returns {Function} unsubscribe
+   */
+  subscribe(filter, listener) {
+    const handler = (event) => {
+      if (filter.jobId && event.jobId !== filter.jobId) return;
+      if (filter.sessionId && event.sessionId !== filter.sessionId) return;
+      listener(event);
+    };
+    this.emitter.on('event', handler);
+    return () => this.emitter.off('event', handler);
+  }
+
+  /**
+   * Delete events older than the retention window
+   */
+  async prune() {
+    const cutoff = new Date(Date.now() - config.jobs.eventRetentionHours * 60 * 60 * 1000);
+    const result = await prisma.jobEvent.deleteMany({
+      where: { createdAt: { lt: cutoff } },
+    });
+    if (result.count > 0) {
+      logger.debug(`Pruned ${result.count} job events`);
+    }
+  }
+
+  format(event) {
+    return {
+      id: event.id,
+      jobId: event.jobId,
+      sessionId: event.sessionId,
+      type: event.type,
+      data: JSON.parse(event.data),
+      createdAt: event.createdAt,
+    };
+  }
+}
+
+export const jobEventsService = new JobEventsService();
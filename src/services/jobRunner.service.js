@@ -1,56 +1,392 @@
+import os from 'os';
+import { randomUUID } from 'crypto';
 import { prisma } from '../db/prisma.js';
-import { keywordService } from './keyword.service.js';
+import { keywordService, MAX_PREFIX_PROBES } from './keyword.service.js';
+import { appStoreService } from './appStore.service.js';
 import { aiService } from './ai.service.js';
 import { globalKeywordBankService } from './globalKeywordBank.service.js';
+import { jobEventsService } from './jobEvents.service.js';
+import { scoringService } from './scoring.service.js';
+import { config } from '../config/index.js';
 import { logger } from '../utils/logger.js';
+import { computeNextRunAt, alignToActiveWindow, hasNextRun, isValidCronExpression, previewRunTimes } from '../utils/schedule.js';
+
+// Configuration fields shared by jobs and job templates (everything except name, progress and metadata)
+export const JOB_CONFIG_FIELDS = [
+  'searchesPerBatch',
+  'intervalMinutes',
+  'totalCycles',
+  'country',
+  'countries',
+  'scheduleType',
+  'cronExpression',
+  'timezone',
+  'windowStart',
+  'windowEnd',
+  'strategy',
+  'seedCategory',
+  'seedAppIds',
+  'snowballMaxDepth',
+  'snowballBranching',
+  'goalKeywordCount',
+  'goalMinOpportunityScore',
+  'goalMaxDifficulty',
+  'goalMinPopularity',
+  'maxIdleCycles',
+  'maxErrorRate',
+];
+
+// The error-rate stop condition is only checked once a job has this many analyzed keywords
+const ERROR_RATE_MIN_SAMPLES = 10;
+
+// Pauses inside a cycle to stay clear of Gemini and iTunes rate limits
+const KEYWORD_DELAY_MS = 2000; // between analyzed keywords
+const AI_CALL_DELAY_MS = 1000; // between keyword generation calls
+const SNOWBALL_SOURCE_DELAY_MS = 500; // between expanded snowball sources
+
+// Typical latencies used by estimateJob
+const ESTIMATE_AI_CALL_MS = 4000;
+const ESTIMATE_HTTP_REQUEST_MS = 600;
+
+// Autocomplete lookups made per competitor app (see collectCompetitorCandidates)
+const COMPETITOR_SUGGESTION_SEEDS = 5;
+
+// Only jobs that are not scheduled can have their configuration changed
+const EDITABLE_JOB_STATUSES = ['pending', 'paused'];
 
 /**
  * JobRunner Service - Manages continuous keyword search jobs
- * Handles scheduling, execution, and tracking of keyword discovery jobs
+ * Handles scheduling, execution, and tracking of keyword discovery jobs.
+ *
+ * Cycles are persisted as JobCycle rows and executed by a worker loop that
+ * claims due rows with a lease, so restarts and multiple API instances
+ * neither skip nor double-run a cycle.
  */
 export class JobRunnerService {
   constructor() {
-    // Map of running jobs: jobId -> { intervalId, timeoutId }
-    this.runningJobs = new Map();
+    // Unique identity of this process when holding cycle leases
+    this.workerId = `${os.hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+    // Map of cycles leased by this worker: cycleId -> { heartbeatId, lost }
+    this.activeCycles = new Map();
+    this.pollTimer = null;
+    this.polling = false;
     this.initialized = false;
   }
 
   /**
-   * Initialize the service and resume any running jobs
+   * Initialize the service and start the queue worker
+   * Cycles left "leased" by a crashed process are reclaimed once their lease expires
    */
   async initialize() {
     if (this.initialized) return;
 
     try {
-      // Find jobs that were running when server stopped
+      // Running jobs without any pending cycle (e.g. created before the queue existed) get one enqueued
       const runningJobs = await prisma.keywordSearchJob.findMany({
         where: { status: 'running' },
+        include: {
+          cycles: {
+            where: { status: { in: ['queued', 'leased'] } },
+            select: { id: true },
+          },
+        },
       });
 
-      if (runningJobs.length > 0) {
-        logger.info(`Found ${runningJobs.length} jobs that were running. Resuming...`);
-
-        for (const job of runningJobs) {
-          // Check if job should continue or be marked as paused
-          if (job.currentCycle >= job.totalCycles) {
-            await this.completeJob(job.id);
-          } else {
-            logger.info(`Resuming job: ${job.id} (${job.name})`);
-            // Resume the job
-            this.executeJob(job).catch(error => {
-              logger.error(`Error resuming job ${job.id}:`, error);
-            });
-          }
+      for (const job of runningJobs) {
+        if (job.cycles.length > 0) continue;
+
+        if (job.currentCycle >= job.totalCycles) {
+          await this.completeJob(job.id, 'cycles_completed');
+        } else {
+          logger.info(`Re-queueing job: ${job.id} (${job.name}) at cycle ${job.currentCycle + 1}`);
+          await this.enqueueCycle(job.id, job.currentCycle + 1, computeNextRunAt(job, new Date(), true));
         }
       }
 
+      this.startWorker();
       this.initialized = true;
-      logger.info('JobRunner service initialized successfully');
+      logger.info(`JobRunner service initialized successfully (worker ${this.workerId})`);
     } catch (error) {
       logger.error('Error initializing JobRunner service:', error);
     }
   }
 
+  /**
+   * Start polling the cycle queue
+   */
+  startWorker() {
+    if (this.pollTimer) return;
+
+    this.pollTimer = setInterval(() => {
+      this.pollQueue().catch(error => {
+        logger.error('Error polling job queue:', error);
+      });
+    }, config.jobs.pollIntervalMs);
+
+    // Pick up due cycles right away instead of waiting for the first tick
+    this.pollQueue().catch(error => {
+      logger.error('Error polling job queue:', error);
+    });
+  }
+
+  /**
+   * Stop polling and release the leases held by this worker
+   */
+  async stopWorker() {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    for (const [cycleId, lease] of this.activeCycles) {
+      clearInterval(lease.heartbeatId);
+      lease.lost = true;
+      await prisma.jobCycle.updateMany({
+        where: { id: cycleId, leaseOwner: this.workerId, status: 'leased' },
+        data: { status: 'queued', leaseOwner: null, leaseExpiresAt: null },
+      });
+    }
+    this.activeCycles.clear();
+
+    logger.info(`JobRunner worker ${this.workerId} stopped`);
+  }
+
+  /**
+   * Claim and run due cycles, up to the configured concurrency
+   */
+  async pollQueue() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      while (this.activeCycles.size < config.jobs.concurrency) {
+        const cycle = await this.claimNextCycle();
+        if (!cycle) break;
+
+        this.runCycle(cycle).catch(error => {
+          logger.error(`Unexpected error running cycle ${cycle.id}:`, error);
+        });
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Atomically lease the next due cycle
+   * Uses a compare-and-set update so concurrent workers cannot claim the same row
+   */
+  async claimNextCycle() {
+    const now = new Date();
+    const dueWhere = {
+      OR: [
+        { status: 'queued', runAt: { lte: now } },
+        { status: 'leased', leaseExpiresAt: { lt: now } },
+      ],
+    };
+
+    const candidates = await prisma.jobCycle.findMany({
+      where: dueWhere,
+      orderBy: { runAt: 'asc' },
+      take: 5,
+    });
+
+    for (const candidate of candidates) {
+      const leaseExpiresAt = new Date(Date.now() + config.jobs.leaseMs);
+      const claimed = await prisma.jobCycle.updateMany({
+        where: {
+          id: candidate.id,
+          status: candidate.status,
+          leaseOwner: candidate.leaseOwner,
+          attempts: candidate.attempts,
+        },
+        data: {
+          status: 'leased',
+          leaseOwner: this.workerId,
+          leaseExpiresAt,
+          heartbeatAt: new Date(),
+          attempts: { increment: 1 },
+          startedAt: new Date(),
+        },
+      });
+
+      if (claimed.count === 1) {
+        return { ...candidate, attempts: candidate.attempts + 1, leaseExpiresAt };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Execute a leased cycle, keeping the lease alive with heartbeats
+   */
+  async runCycle(cycle) {
+    const lease = { heartbeatId: null, lost: false };
+    this.activeCycles.set(cycle.id, lease);
+
+    lease.heartbeatId = setInterval(async () => {
+      try {
+        const renewed = await prisma.jobCycle.updateMany({
+          where: { id: cycle.id, leaseOwner: this.workerId, status: 'leased' },
+          data: {
+            heartbeatAt: new Date(),
+            leaseExpiresAt: new Date(Date.now() + config.jobs.leaseMs),
+          },
+        });
+        if (renewed.count === 0) {
+          lease.lost = true;
+          logger.warn(`Job ${cycle.jobId}: Lost lease on cycle ${cycle.cycleNumber}`);
+        }
+      } catch (error) {
+        logger.error(`Job ${cycle.jobId}: Heartbeat failed for cycle ${cycle.cycleNumber}: ${error.message}`);
+      }
+    }, Math.max(Math.floor(config.jobs.leaseMs / 3), 1000));
+
+    try {
+      const job = await prisma.keywordSearchJob.findUnique({
+        where: { id: cycle.jobId },
+      });
+
+      if (!job || job.status !== 'running') {
+        await this.finishCycle(cycle, 'cancelled');
+        logger.info(`Job ${cycle.jobId}: Cycle ${cycle.cycleNumber} cancelled (job stopped or deleted)`);
+        return;
+      }
+
+      // A retried cycle may have saved some results before failing - start it clean
+      if (cycle.attempts > 1) {
+        await prisma.keywordSearchResult.deleteMany({
+          where: { jobId: job.id, cycleNumber: cycle.cycleNumber },
+        });
+      }
+
+      const usedKeywords = JSON.parse(job.usedKeywords || '[]');
+      const { stopReason } = await this.executeCycle(job, cycle.cycleNumber, usedKeywords, lease);
+
+      if (!(await this.finishCycle(cycle, 'completed'))) return;
+      await this.advanceJob(job, cycle.cycleNumber, stopReason);
+    } catch (error) {
+      logger.error(`Job ${cycle.jobId} error in cycle ${cycle.cycleNumber} (attempt ${cycle.attempts}):`, error);
+
+      if (cycle.attempts < cycle.maxAttempts) {
+        // Release the lease and retry after a delay, staying inside the job's active window
+        const job = await prisma.keywordSearchJob.findUnique({ where: { id: cycle.jobId } });
+        const retryAt = new Date(Date.now() + config.jobs.retryDelayMs);
+        await prisma.jobCycle.updateMany({
+          where: { id: cycle.id, leaseOwner: this.workerId },
+          data: {
+            status: 'queued',
+            runAt: job ? alignToActiveWindow(retryAt, job) : retryAt,
+            leaseOwner: null,
+            leaseExpiresAt: null,
+            lastError: error.message,
+          },
+        });
+      } else if (await this.finishCycle(cycle, 'failed', error.message)) {
+        // Continue to next cycle despite error
+        const job = await prisma.keywordSearchJob.findUnique({ where: { id: cycle.jobId } });
+        if (job && job.status === 'running') {
+          await this.advanceJob(job, cycle.cycleNumber);
+        }
+      }
+    } finally {
+      clearInterval(lease.heartbeatId);
+      this.activeCycles.delete(cycle.id);
+    }
+  }
+
+  /**
+   * Mark a leased cycle as finished
+   * Returns false if this worker no longer holds the lease
+   */
+  async finishCycle(cycle, status, lastError = null) {
+    const result = await prisma.jobCycle.updateMany({
+      where: { id: cycle.id, leaseOwner: this.workerId, status: 'leased' },
+      data: {
+        status,
+        lastError,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        completedAt: new Date(),
+      },
+    });
+
+    if (result.count === 0) {
+      logger.warn(`Job ${cycle.jobId}: Cycle ${cycle.cycleNumber} finished after its lease was lost`);
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Complete the job or queue its next cycle once a cycle has finished
+   * The cycle is no longer leased, so it cannot be retried: a failure here fails the job
+   * instead of leaving it running with nothing queued.
+   */
+  async advanceJob(job, cycleNumber, stopReason = null) {
+    try {
+      if (stopReason) {
+        await this.completeJob(job.id, stopReason);
+      } else {
+        await this.scheduleNextCycle(job, cycleNumber);
+      }
+    } catch (error) {
+      logger.error(`Job ${job.id}: Could not continue after cycle ${cycleNumber}:`, error);
+      await this.failJob(job.id, error.message);
+    }
+  }
+
+  /**
+   * Queue the cycle after `cycleNumber`, or complete the job if it was the last one
+   */
+  async scheduleNextCycle(job, cycleNumber) {
+    const current = await prisma.keywordSearchJob.findUnique({ where: { id: job.id } });
+    if (!current || current.status !== 'running') return;
+
+    if (cycleNumber >= current.totalCycles) {
+      await this.completeJob(job.id, 'cycles_completed');
+      return;
+    }
+
+    const runAt = computeNextRunAt(current, new Date());
+    await this.enqueueCycle(job.id, cycleNumber + 1, runAt);
+  }
+
+  /**
+   * Insert (or re-arm) a queued cycle row
+   * A leased row is left alone: its worker is still running the cycle (e.g. the job was paused and
+   * resumed mid-cycle) and queues the next one itself when it finishes.
+   */
+  async enqueueCycle(jobId, cycleNumber, runAt) {
+    await prisma.jobCycle.upsert({
+      where: {
+        jobId_cycleNumber: { jobId, cycleNumber },
+      },
+      update: {},
+      create: {
+        jobId,
+        cycleNumber,
+        runAt,
+        maxAttempts: config.jobs.maxAttempts,
+      },
+    });
+
+    await prisma.jobCycle.updateMany({
+      where: { jobId, cycleNumber, status: { not: 'leased' } },
+      data: {
+        status: 'queued',
+        runAt,
+        attempts: 0,
+        lastError: null,
+        leaseOwner: null,
+        leaseExpiresAt: null,
+        startedAt: null,
+        completedAt: null,
+      },
+    });
+  }
+
   /**
    * Create a new keyword search job
    */
@@ -61,8 +397,23 @@ export class JobRunnerService {
       intervalMinutes = 15,
       totalCycles = 10,
       country = 'us',
+      countries = [country],
+      scheduleType = 'interval',
+      cronExpression = null,
+      timezone = 'UTC',
+      windowStart = null,
+      windowEnd = null,
       strategy = 'random',
       seedCategory = null,
+      snowballMaxDepth = 3,
+      snowballBranching = 5,
+      seedAppIds = [],
+      goalKeywordCount = null,
+      goalMinOpportunityScore = null,
+      goalMaxDifficulty = null,
+      goalMinPopularity = null,
+      maxIdleCycles = null,
+      maxErrorRate = null,
       sessionId = null,
       notes = null,
     } = config;
@@ -73,9 +424,25 @@ export class JobRunnerService {
         searchesPerBatch,
         intervalMinutes,
         totalCycles,
-        country,
+        // The first listed storefront drives keyword generation
+        country: countries[0] || country,
+        countries: JSON.stringify(countries.length > 0 ? countries : [country]),
+        scheduleType,
+        cronExpression: scheduleType === 'cron' ? cronExpression : null,
+        timezone,
+        windowStart: windowStart || null,
+        windowEnd: windowEnd || null,
         strategy,
         seedCategory,
+        snowballMaxDepth,
+        snowballBranching,
+        seedAppIds: JSON.stringify(seedAppIds.map(String)),
+        goalKeywordCount,
+        goalMinOpportunityScore,
+        goalMaxDifficulty,
+        goalMinPopularity,
+        maxIdleCycles,
+        maxErrorRate,
         sessionId,
         notes,
         status: 'pending',
@@ -87,6 +454,187 @@ export class JobRunnerService {
     return job;
   }
 
+  /**
+   * Update the configuration of a pending or paused job
+   * Only the fields present in `changes` are modified; the merged configuration is re-validated.
+   */
+  async updateJob(jobId, changes) {
+    const job = await prisma.keywordSearchJob.findUnique({
+      where: { id: jobId },
+    });
+
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    if (!EDITABLE_JOB_STATUSES.includes(job.status)) {
+      throw new Error('Only pending or paused jobs can be edited');
+    }
+
+    const data = {};
+    for (const field of ['name', 'notes', ...JOB_CONFIG_FIELDS]) {
+      if (changes[field] !== undefined) data[field] = changes[field];
+    }
+    if (data.seedAppIds) data.seedAppIds = JSON.stringify(data.seedAppIds.map(String));
+    if (data.countries) {
+      data.country = data.countries[0];
+      data.countries = JSON.stringify(data.countries);
+    } else if (data.country) {
+      data.countries = JSON.stringify([data.country]);
+    }
+    if (data.windowStart !== undefined) data.windowStart = data.windowStart || null;
+    if (data.windowEnd !== undefined) data.windowEnd = data.windowEnd || null;
+
+    const merged = { ...job, ...data };
+    if (merged.scheduleType === 'cron' && !isValidCronExpression(merged.cronExpression)) {
+      throw new Error('Cron schedule requires a valid cron expression');
+    }
+    if (merged.scheduleType !== 'cron') {
+      data.cronExpression = null;
+    }
+    if (!!merged.windowStart !== !!merged.windowEnd) {
+      throw new Error('Window start and end must be set together');
+    }
+    if (merged.scheduleType === 'cron' && !hasNextRun(merged)) {
+      throw new Error('Cron expression never fires inside the active window');
+    }
+    if (merged.strategy === 'competitor' && JSON.parse(merged.seedAppIds).length === 0) {
+      throw new Error('Competitor strategy requires at least one seed app ID');
+    }
+    if (merged.totalCycles < job.currentCycle) {
+      throw new Error('Total cycles cannot be lower than the cycles already run');
+    }
+
+    // Guard against the job being started between the read and the write
+    const { count } = await prisma.keywordSearchJob.updateMany({
+      where: { id: jobId, status: { in: EDITABLE_JOB_STATUSES } },
+      data,
+    });
+
+    if (count === 0) {
+      throw new Error('Only pending or paused jobs can be edited');
+    }
+
+    logger.info(`Updated job: ${jobId} (${Object.keys(data).join(', ')})`);
+    return this.getJobDetails(jobId, { includeResults: false });
+  }
+
+  /**
+   * Create a new pending job with the same configuration as an existing one
+   */
+  async cloneJob(jobId, { name, sessionId } = {}) {
+    const job = await prisma.keywordSearchJob.findUnique({
+      where: { id: jobId },
+    });
+
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    const jobConfig = Object.fromEntries(JOB_CONFIG_FIELDS.map((field) => [field, job[field]]));
+
+    return this.createJob({
+      ...jobConfig,
+      seedAppIds: JSON.parse(job.seedAppIds || '[]'),
+      countries: this.getJobCountries(job),
+      name: name || `${job.name} (copy)`,
+      sessionId: sessionId || job.sessionId,
+      notes: job.notes,
+    });
+  }
+
+  /**
+   * Estimate the external requests and wall-clock time a job configuration will need
+   * Generation call counts are ranges: strategies stop early once a cycle has enough new keywords.
+   * Keywords that are skipped or fail still count, so real usage is usually at or below the maximum.
+   */
+  estimateJob(jobConfig, from = new Date()) {
+    const {
+      searchesPerBatch = 1,
+      totalCycles = 10,
+      strategy = 'random',
+      seedAppIds = [],
+      snowballBranching = 5,
+      countries = [],
+    } = jobConfig;
+    const count = searchesPerBatch;
+    // Each keyword is analyzed once per storefront
+    const analyses = count * Math.max(countries.length, 1);
+    const range = (min, max = min) => ({ min, max });
+
+    // Per-cycle generation cost: Gemini calls, App Store lookups and autocomplete requests
+    let generation = {};
+    if (strategy === 'random') {
+      generation = { ai: range(Math.ceil(count / Math.ceil(count / 3)), Math.min(count * 2, 15)) };
+    } else if (strategy === 'category') {
+      generation = { ai: range(1, 3) };
+    } else if (strategy === 'trending') {
+      const perCategory = Math.ceil(count / 5);
+      generation = { ai: range(Math.ceil(count / perCategory), 5) };
+    } else if (strategy === 'snowball') {
+      generation = { hints: range(Math.ceil(count / snowballBranching), Math.max(count, 10)) };
+    } else if (strategy === 'competitor') {
+      const appCount = Math.max(seedAppIds.length, 1);
+      const apps = range(Math.min(Math.ceil(count / Math.max(1, Math.ceil(count / appCount))), appCount), appCount);
+      generation = {
+        lookups: apps,
+        hints: range(apps.min * COMPETITOR_SUGGESTION_SEEDS, apps.max * COMPETITOR_SUGGESTION_SEEDS),
+      };
+    }
+
+    const ai = generation.ai || range(0);
+    const lookups = generation.lookups || range(0);
+    const generationHints = generation.hints || range(0);
+
+    // Every analysis makes one iTunes search, one autocomplete request for the keyword
+    // and 1 to MAX_PREFIX_PROBES prefix-depth probes
+    const perCycle = {
+      keywords: count,
+      analyses,
+      geminiCalls: ai,
+      itunesSearches: range(analyses),
+      itunesLookups: lookups,
+      searchHints: range(
+        generationHints.min + analyses * 2,
+        generationHints.max + analyses * (1 + MAX_PREFIX_PROBES)
+      ),
+    };
+
+    const cycleMs = (bound) =>
+      perCycle.geminiCalls[bound] * (ESTIMATE_AI_CALL_MS + AI_CALL_DELAY_MS) +
+      (perCycle.itunesSearches[bound] + perCycle.itunesLookups[bound] + perCycle.searchHints[bound]) * ESTIMATE_HTTP_REQUEST_MS +
+      (strategy === 'snowball' ? generationHints[bound] * SNOWBALL_SOURCE_DELAY_MS : 0) +
+      analyses * KEYWORD_DELAY_MS;
+    const cycleDurationMs = range(cycleMs('min'), cycleMs('max'));
+
+    // Cron runs are fixed; interval runs start counting after the previous cycle ends
+    const runs = previewRunTimes(jobConfig, totalCycles, from);
+    const lastRunAt = runs[runs.length - 1];
+    const endAt = (bound) => new Date(
+      lastRunAt.getTime() +
+      cycleDurationMs[bound] * (jobConfig.scheduleType === 'cron' ? 1 : totalCycles)
+    );
+
+    const total = (value) => range(value.min * totalCycles, value.max * totalCycles);
+
+    return {
+      strategy,
+      totalCycles,
+      perCycle,
+      total: {
+        keywords: count * totalCycles,
+        analyses: analyses * totalCycles,
+        geminiCalls: total(perCycle.geminiCalls),
+        itunesSearches: total(perCycle.itunesSearches),
+        itunesLookups: total(perCycle.itunesLookups),
+        searchHints: total(perCycle.searchHints),
+      },
+      cycleDurationSeconds: range(Math.round(cycleDurationMs.min / 1000), Math.round(cycleDurationMs.max / 1000)),
+      firstRunAt: runs[0].toISOString(),
+      estimatedEndAt: range(endAt('min').toISOString(), endAt('max').toISOString()),
+    };
+  }
+
   /**
    * Start a job
    */
@@ -104,19 +652,30 @@ export class JobRunnerService {
     }
 
     // Update job status
-    await prisma.keywordSearchJob.update({
+    const startedJob = await prisma.keywordSearchJob.update({
       where: { id: jobId },
       data: {
         status: 'running',
-        startedAt: new Date(),
+        startedAt: job.startedAt || new Date(),
         lastRunAt: new Date(),
+        stopReason: null,
+        lastError: null,
+        idleCycles: 0,
       },
     });
 
     logger.info(`Starting job: ${jobId} (${job.name})`);
+    await jobEventsService.publish(job, 'job.status', { status: 'running', startedAt: startedJob.startedAt });
 
-    // Start the job execution
-    this.executeJob(job);
+    // Queue the next cycle: immediately for interval jobs, at the next tick for cron jobs
+    if (job.currentCycle >= job.totalCycles) {
+      await this.completeJob(jobId, 'cycles_completed');
+    } else {
+      await this.enqueueCycle(jobId, job.currentCycle + 1, computeNextRunAt(job, new Date(), true));
+      this.pollQueue().catch(error => {
+        logger.error('Error polling job queue:', error);
+      });
+    }
 
     return { success: true, message: 'Job started' };
   }
@@ -137,193 +696,188 @@ export class JobRunnerService {
       throw new Error('Job is not running');
     }
 
-    // Clear timers
-    const jobTimers = this.runningJobs.get(jobId);
-    if (jobTimers) {
-      if (jobTimers.intervalId) clearInterval(jobTimers.intervalId);
-      if (jobTimers.timeoutId) clearTimeout(jobTimers.timeoutId);
-      this.runningJobs.delete(jobId);
-    }
-
-    // Update job status
-    await prisma.keywordSearchJob.update({
-      where: { id: jobId },
-      data: {
-        status: 'paused',
-      },
-    });
+    // Update job status and drop queued cycles; a cycle that is mid-flight finishes but schedules nothing
+    await prisma.$transaction([
+      prisma.keywordSearchJob.update({
+        where: { id: jobId },
+        data: {
+          status: 'paused',
+        },
+      }),
+      prisma.jobCycle.updateMany({
+        where: { jobId, status: 'queued' },
+        data: { status: 'cancelled' },
+      }),
+    ]);
 
     logger.info(`Stopped job: ${jobId} (${job.name})`);
+    await jobEventsService.publish(job, 'job.status', { status: 'paused' });
     return { success: true, message: 'Job stopped' };
   }
 
-  /**
-   * Execute a job - main execution loop
-   */
-  async executeJob(job) {
-    const { id, searchesPerBatch, intervalMinutes, totalCycles, country, strategy, seedCategory } = job;
-
-    // Get used keywords to avoid duplicates
-    const usedKeywords = JSON.parse(job.usedKeywords || '[]');
-
-    // Determine starting cycle (for resumption)
-    const startCycle = Math.max(job.currentCycle || 0, 0) + 1;
-
-    // Execute first/next cycle immediately if starting or resuming
-    if (startCycle <= totalCycles) {
-      await this.executeCycle(id, startCycle, searchesPerBatch, country, strategy, seedCategory, usedKeywords);
-    } else {
-      // Job already completed all cycles
-      await this.completeJob(id);
-      return;
-    }
-
-    // Schedule subsequent cycles
-    const intervalMs = intervalMinutes * 60 * 1000;
-    let cycleCount = startCycle;
-
-    const intervalId = setInterval(async () => {
-      cycleCount++;
-
-      // Check if job should stop
-      const currentJob = await prisma.keywordSearchJob.findUnique({
-        where: { id },
-      });
-
-      if (!currentJob || currentJob.status !== 'running') {
-        clearInterval(intervalId);
-        this.runningJobs.delete(id);
-        logger.info(`Job ${id} stopped or deleted`);
-        return;
-      }
-
-      // Check if all cycles completed
-      if (cycleCount > totalCycles) {
-        await this.completeJob(id);
-        clearInterval(intervalId);
-        this.runningJobs.delete(id);
-        return;
-      }
-
-      // Execute next cycle
-      try {
-        await this.executeCycle(id, cycleCount, searchesPerBatch, country, strategy, seedCategory, usedKeywords);
-      } catch (error) {
-        logger.error(`Job ${id} error in cycle ${cycleCount}:`, error);
-        // Continue to next cycle despite error
-      }
-
-    }, intervalMs);
-
-    // Store interval ID for cleanup
-    this.runningJobs.set(id, { intervalId, timeoutId: null });
-  }
-
   /**
    * Execute a single cycle of keyword searches
+   * Throws if the cycle could not run so the queue can retry it
    */
-  async executeCycle(jobId, cycleNumber, searchesPerBatch, country, strategy, seedCategory, usedKeywords) {
+  async executeCycle(job, cycleNumber, usedKeywords, lease = null) {
+    const { id: jobId, searchesPerBatch, country, strategy, seedCategory } = job;
     logger.info(`Job ${jobId}: Starting cycle ${cycleNumber}`);
+    await jobEventsService.publish(job, 'cycle.started', { cycleNumber });
+    const usedKeywordsBefore = usedKeywords.length;
 
     try {
       // Generate keywords for this cycle (pass country for global bank check)
-      const keywords = await this.generateKeywords(strategy, seedCategory, searchesPerBatch, usedKeywords, country);
+      // Strategies record where each keyword came from in `origins` (e.g. snowball depth)
+      const origins = new Map();
+      const keywords = await this.generateKeywords(strategy, seedCategory, searchesPerBatch, usedKeywords, country, {
+        origins,
+        jobId,
+        maxDepth: job.snowballMaxDepth,
+        branching: job.snowballBranching,
+        seedAppIds: JSON.parse(job.seedAppIds || '[]'),
+        cycleNumber,
+      });
 
       if (keywords.length === 0) {
         logger.warn(`Job ${jobId}: No new keywords generated for cycle ${cycleNumber}`);
-        return;
       }
 
-      // Analyze each keyword
+      // Analyze each keyword in every storefront of the job
+      const countries = this.getJobCountries(job);
       for (const keyword of keywords) {
-        try {
-          // Skip if already used
-          if (usedKeywords.includes(keyword.toLowerCase())) {
-            continue;
-          }
+        // Skip if already used
+        if (usedKeywords.includes(keyword.toLowerCase())) {
+          continue;
+        }
 
-          // Analyze keyword
-          const analysis = await keywordService.analyzeKeyword(keyword, country);
-
-          // Calculate opportunity score
-          const opportunityScore = analysis.difficulty > 0
-            ? (analysis.popularity / analysis.difficulty) * 10
-            : 0;
-
-          // Save result
-          await prisma.keywordSearchResult.create({
-            data: {
-              jobId,
-              keyword,
-              cycleNumber,
-              popularity: analysis.popularity,
-              difficulty: analysis.difficulty,
-              competitorCount: analysis.competitorCount,
-              opportunityScore: Math.round(opportunityScore * 10) / 10,
-              topApps: JSON.stringify(analysis.topApps),
-              relatedTerms: JSON.stringify(analysis.relatedTerms),
-              status: 'success',
-              searchedAt: new Date(),
-            },
-          });
+        let analyzed = false;
+        for (const storefront of countries) {
+          if (lease?.lost) {
+            throw new Error('Lease lost during cycle');
+          }
 
-          // Add to global keyword bank for cross-job deduplication
-          try {
-            await globalKeywordBankService.addKeyword({
-              keyword,
-              country,
-              popularity: analysis.popularity,
-              difficulty: analysis.difficulty,
-              competitorCount: analysis.competitorCount,
-              opportunityScore: Math.round(opportunityScore * 10) / 10,
-              topApps: analysis.topApps,
-              relatedTerms: analysis.relatedTerms,
-            }, 'job', jobId);
-          } catch (bankError) {
-            logger.error(`Job ${jobId}: Failed to add keyword to global bank: ${bankError.message}`);
-            // Don't fail the job if global bank insert fails
+          if (await this.analyzeJobKeyword(job, keyword, storefront, cycleNumber, origins.get(keyword))) {
+            analyzed = true;
+            // Small delay between searches to avoid rate limiting
+            await this.sleep(KEYWORD_DELAY_MS);
           }
+        }
 
-          // Add to used keywords
+        // Add to used keywords once it was analyzed in at least one storefront
+        if (analyzed) {
           usedKeywords.push(keyword.toLowerCase());
-
-          logger.info(`Job ${jobId}: Analyzed keyword "${keyword}" - Pop: ${analysis.popularity}, Diff: ${analysis.difficulty}, Opp: ${opportunityScore.toFixed(1)}`);
-
-          // Small delay between searches to avoid rate limiting
-          await this.sleep(2000); // 2 seconds between keywords in same batch
-
-        } catch (error) {
-          logger.error(`Job ${jobId}: Error analyzing keyword "${keyword}": ${error.message}`);
-
-          // Save error result
-          await prisma.keywordSearchResult.create({
-            data: {
-              jobId,
-              keyword,
-              cycleNumber,
-              status: 'error',
-              errorMessage: error.message,
-              searchedAt: new Date(),
-            },
-          });
         }
       }
 
       // Update job with used keywords and progress
-      await prisma.keywordSearchJob.update({
+      const newKeywordCount = usedKeywords.length - usedKeywordsBefore;
+      const updatedJob = await prisma.keywordSearchJob.update({
         where: { id: jobId },
         data: {
           usedKeywords: JSON.stringify(usedKeywords),
           currentCycle: cycleNumber,
           totalKeywords: usedKeywords.length,
           lastRunAt: new Date(),
+          idleCycles: newKeywordCount > 0 ? 0 : { increment: 1 },
         },
       });
 
       logger.info(`Job ${jobId}: Completed cycle ${cycleNumber} - Total keywords: ${usedKeywords.length}`);
+      await jobEventsService.publish(job, 'cycle.finished', {
+        cycleNumber,
+        currentCycle: cycleNumber,
+        totalCycles: job.totalCycles,
+        totalKeywords: usedKeywords.length,
+        lastRunAt: new Date().toISOString(),
+      });
+
+      return { stopReason: await this.evaluateStopConditions(updatedJob) };
 
     } catch (error) {
       logger.error(`Job ${jobId}: Error in cycle ${cycleNumber}: ${error.message}`);
+      await jobEventsService.publish(job, 'cycle.error', { cycleNumber, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Analyze one keyword in one storefront, save the result row and add it to the global bank
+   * Failures are saved as error rows rather than thrown
+   * @returns {boolean} Whether the analysis succeeded
+   */
+  async analyzeJobKeyword(job, keyword, country, cycleNumber, origin) {
+    const { id: jobId } = job;
+
+    try {
+      // Analyze keyword
+      const analysis = await keywordService.analyzeKeyword(keyword, country);
+
+      const { opportunityScore, scoreVersion } = await scoringService.score(analysis.popularity, analysis.difficulty);
+
+      // Save result
+      const result = await prisma.keywordSearchResult.create({
+        data: {
+          jobId,
+          keyword,
+          country,
+          cycleNumber,
+          popularity: analysis.popularity,
+          difficulty: analysis.difficulty,
+          competitorCount: analysis.competitorCount,
+          opportunityScore,
+          scoreVersion,
+          topApps: JSON.stringify(analysis.topApps),
+          relatedTerms: JSON.stringify(analysis.relatedTerms),
+          sourceAppId: origin?.appId || null,
+          sourceAppName: origin?.appName || null,
+          status: 'success',
+          searchedAt: new Date(),
+        },
+      });
+
+      // Add to global keyword bank for cross-job deduplication
+      try {
+        await globalKeywordBankService.addKeyword({
+          keyword,
+          country,
+          popularity: analysis.popularity,
+          difficulty: analysis.difficulty,
+          competitorCount: analysis.competitorCount,
+          opportunityScore,
+          scoreVersion,
+          topApps: analysis.topApps,
+          relatedTerms: analysis.relatedTerms,
+          depth: origin?.depth,
+          explored: origin?.explored,
+        }, 'job', jobId);
+      } catch (bankError) {
+        logger.error(`Job ${jobId}: Failed to add keyword to global bank: ${bankError.message}`);
+        // Don't fail the job if global bank insert fails
+      }
+
+      await jobEventsService.publish(job, 'keyword.result', { cycleNumber, result: this.formatResult(result) });
+      logger.info(`Job ${jobId}: Analyzed keyword "${keyword}" (${country}) - Pop: ${analysis.popularity}, Diff: ${analysis.difficulty}, Opp: ${opportunityScore}`);
+      return true;
+
+    } catch (error) {
+      logger.error(`Job ${jobId}: Error analyzing keyword "${keyword}" (${country}): ${error.message}`);
+
+      // Save error result
+      const errorResult = await prisma.keywordSearchResult.create({
+        data: {
+          jobId,
+          keyword,
+          country,
+          cycleNumber,
+          sourceAppId: origin?.appId || null,
+          sourceAppName: origin?.appName || null,
+          status: 'error',
+          errorMessage: error.message,
+          searchedAt: new Date(),
+        },
+      });
+      await jobEventsService.publish(job, 'keyword.error', { cycleNumber, result: this.formatResult(errorResult) });
+      return false;
     }
   }
 
@@ -331,7 +885,7 @@ export class JobRunnerService {
    * Generate keywords based on strategy
    * Now checks global keyword bank to avoid duplicates across all jobs
    */
-  async generateKeywords(strategy, seedCategory, count, usedKeywords, country = 'us') {
+  async generateKeywords(strategy, seedCategory, count, usedKeywords, country = 'us', options = {}) {
     const keywords = [];
 
     // Get all globally analyzed keywords to avoid duplicates
@@ -373,7 +927,7 @@ export class JobRunnerService {
 
             // Small delay between AI calls to avoid rate limiting
             if (keywords.length < count) {
-              await this.sleep(1000);
+              await this.sleep(AI_CALL_DELAY_MS);
             }
           } catch (catError) {
             logger.error(`Error generating keywords for category ${category}: ${catError.message}`);
@@ -406,13 +960,34 @@ export class JobRunnerService {
             attempt++;
 
             if (keywords.length < count && attempt < maxAttempts) {
-              await this.sleep(1000);
+              await this.sleep(AI_CALL_DELAY_MS);
             }
           } catch (catError) {
             logger.error(`Error generating category keywords (attempt ${attempt + 1}): ${catError.message}`);
             attempt++;
           }
         }
+      } else if (strategy === 'snowball') {
+        // Breadth-first crawl of the bank through App Store autocomplete - no AI calls
+        const snowballKeywords = await this.generateSnowballKeywords(
+          seedCategory,
+          count,
+          usedKeywords,
+          globalAnalyzedSet,
+          country,
+          options
+        );
+        keywords.push(...snowballKeywords);
+      } else if (strategy === 'competitor') {
+        // Mine keywords from competitor metadata and autocomplete - no AI calls
+        const competitorKeywords = await this.generateCompetitorKeywords(
+          count,
+          usedKeywords,
+          globalAnalyzedSet,
+          country,
+          options
+        );
+        keywords.push(...competitorKeywords);
       } else if (strategy === 'trending') {
         // Mix of trending categories with balanced distribution
         const trendingCategories = ['Health & Fitness', 'Productivity', 'Finance', 'Education', 'Entertainment'];
@@ -440,7 +1015,7 @@ export class JobRunnerService {
 
             // Small delay between categories
             if (keywords.length < count) {
-              await this.sleep(1000);
+              await this.sleep(AI_CALL_DELAY_MS);
             }
           } catch (catError) {
             logger.error(`Error generating trending keywords for ${category}: ${catError.message}`);
@@ -464,6 +1039,152 @@ export class JobRunnerService {
     }
   }
 
+  /**
+   * Snowball strategy: expand the job's unexplored bank keywords via search suggestions and stored related terms
+   * Sources are taken shallowest first; a source is marked explored once all its children were queued.
+   * Falls back to the seed keyword when the frontier is empty.
+   */
+  async generateSnowballKeywords(seedKeyword, count, usedKeywords, globalAnalyzedSet, country, options = {}) {
+    const { origins = new Map(), jobId = null, maxDepth = 3, branching = 5 } = options;
+    const keywords = [];
+    const exploredSources = [];
+
+    let frontier = await globalKeywordBankService.getSnowballFrontier(country, maxDepth, Math.max(count, 10), jobId);
+    if (frontier.length === 0 && seedKeyword) {
+      const seed = seedKeyword.toLowerCase().trim();
+      frontier = [{ keyword: seed, depth: 0, relatedTerms: [] }];
+
+      // Analyze the seed itself so it becomes the root of the crawl
+      if (!usedKeywords.includes(seed) && !globalAnalyzedSet.has(seed)) {
+        keywords.push(seed);
+        origins.set(seed, { depth: 0, parent: null });
+      }
+    }
+
+    for (const source of frontier) {
+      if (keywords.length >= count) break;
+
+      const suggestions = await appStoreService.getSearchSuggestions(source.keyword, country);
+      const children = [...new Set([
+        ...suggestions.map(s => s.keyword.toLowerCase().trim()),
+        ...(source.relatedTerms || []).map(term => term.toLowerCase().trim()),
+      ])]
+        .filter(kw =>
+          kw &&
+          kw !== source.keyword &&
+          !usedKeywords.includes(kw) &&
+          !globalAnalyzedSet.has(kw) &&
+          !keywords.includes(kw)
+        )
+        .slice(0, branching);
+
+      const room = count - keywords.length;
+      for (const child of children.slice(0, room)) {
+        keywords.push(child);
+        origins.set(child, { depth: (source.depth || 0) + 1, parent: source.keyword });
+      }
+
+      if (children.length <= room) {
+        if (source.id) {
+          exploredSources.push(source.keyword);
+        } else if (origins.has(source.keyword)) {
+          // The seed has no bank row until it is analyzed, so it is stored as explored then
+          origins.get(source.keyword).explored = true;
+        }
+      }
+
+      if (keywords.length < count) {
+        await this.sleep(SNOWBALL_SOURCE_DELAY_MS);
+      }
+    }
+
+    if (exploredSources.length > 0) {
+      await globalKeywordBankService.markManyExplored(exploredSources, country);
+    }
+
+    logger.info(`Snowball: expanded ${exploredSources.length} sources into ${keywords.length} keywords`);
+    return keywords;
+  }
+
+  /**
+   * Competitor strategy: candidate keywords from each seed app's metadata keywords,
+   * name/description n-grams and search suggestions, spread evenly across the apps.
+   * The starting app rotates every cycle so small batches still cover all competitors.
+   */
+  async generateCompetitorKeywords(count, usedKeywords, globalAnalyzedSet, country, options = {}) {
+    const { origins = new Map(), seedAppIds = [], cycleNumber = 1 } = options;
+    const keywords = [];
+
+    if (seedAppIds.length === 0) {
+      logger.warn('Competitor strategy requires seedAppIds');
+      return keywords;
+    }
+
+    const offset = (cycleNumber - 1) % seedAppIds.length;
+    const appIds = [...seedAppIds.slice(offset), ...seedAppIds.slice(0, offset)];
+    const perApp = Math.max(1, Math.ceil(count / appIds.length));
+
+    const isNew = kw =>
+      kw &&
+      !usedKeywords.includes(kw) &&
+      !globalAnalyzedSet.has(kw) &&
+      !keywords.includes(kw);
+
+    for (const appId of appIds) {
+      if (keywords.length >= count) break;
+
+      try {
+        const { app, candidates } = await this.collectCompetitorCandidates(appId, country);
+        const newKeywords = candidates
+          .filter(isNew)
+          .slice(0, Math.min(perApp, count - keywords.length));
+
+        for (const kw of newKeywords) {
+          keywords.push(kw);
+          origins.set(kw, { appId: String(app.id), appName: app.name });
+        }
+      } catch (appError) {
+        logger.error(`Error mining keywords from app ${appId}: ${appError.message}`);
+        continue;
+      }
+    }
+
+    return keywords;
+  }
+
+  /**
+   * Build an ordered candidate list for one competitor app: name n-grams first,
+   * then frequent metadata keywords, phrases mined from its reviews, description phrases
+   * and autocomplete expansions
+   */
+  async collectCompetitorCandidates(appId, country) {
+    const app = await appStoreService.getAppById(appId, country);
+    const extracted = await appStoreService.extractAppKeywords(appId, country);
+
+    const namePhrases = appStoreService.extractPhrases(app.name || '', 3, 1);
+    const metadataWords = extracted.keywords.map(k => k.keyword);
+    const descriptionPhrases = appStoreService.extractPhrases(app.description || '', 3, 2);
+    // Phrases mined from the app's reviews stay unanalyzed in the bank until a job picks them up here
+    const reviewPhrases = await globalKeywordBankService.getCandidates('review_mining', String(appId), country);
+
+    // Expand the strongest terms through autocomplete
+    const suggestionSeeds = [...new Set([...namePhrases.slice(0, 2), ...metadataWords.slice(0, 3)])]
+      .slice(0, COMPETITOR_SUGGESTION_SEEDS);
+    const suggestions = [];
+    for (const seed of suggestionSeeds) {
+      const hints = await appStoreService.getSearchSuggestions(seed, country);
+      suggestions.push(...hints.map(h => h.keyword));
+    }
+
+    const candidates = [...new Set(
+      [...namePhrases, ...metadataWords, ...reviewPhrases, ...descriptionPhrases, ...suggestions]
+        .map(kw => kw.toLowerCase().trim())
+        .filter(kw => kw.length > 2)
+    )];
+
+    return { app, candidates };
+  }
+
   /**
    * Get random categories for diverse keyword generation
    */
@@ -525,28 +1246,124 @@ export class JobRunnerService {
   /**
    * Complete a job
    */
-  async completeJob(jobId) {
-    await prisma.keywordSearchJob.update({
+  async completeJob(jobId, stopReason = 'cycles_completed') {
+    const job = await prisma.keywordSearchJob.update({
       where: { id: jobId },
       data: {
         status: 'completed',
         completedAt: new Date(),
+        stopReason,
+      },
+    });
+
+    logger.info(`Job ${jobId}: Completed successfully (${stopReason})`);
+    await jobEventsService.publish(job, 'job.status', {
+      status: 'completed',
+      completedAt: job.completedAt,
+      stopReason,
+    });
+  }
+
+  /**
+   * Fail a job that cannot continue
+   */
+  async failJob(jobId, errorMessage) {
+    const job = await prisma.keywordSearchJob.update({
+      where: { id: jobId },
+      data: {
+        status: 'failed',
+        completedAt: new Date(),
+        lastError: errorMessage,
       },
     });
 
-    logger.info(`Job ${jobId}: Completed successfully`);
+    logger.error(`Job ${jobId}: Failed (${errorMessage})`);
+    await jobEventsService.publish(job, 'job.status', {
+      status: 'failed',
+      completedAt: job.completedAt,
+      error: errorMessage,
+    });
+  }
+
+  /**
+   * Check a job's stop conditions after a cycle
+   * @param {Object} job - Job row with progress already updated for the cycle
+   * @returns {string|null} Stop reason, or null to keep running
+   */
+  async evaluateStopConditions(job) {
+    if (job.goalKeywordCount) {
+      // Multi-country jobs store one row per keyword per storefront; the goal counts distinct keywords
+      const goalKeywords = await prisma.keywordSearchResult.groupBy({
+        by: ['keyword'],
+        where: {
+          jobId: job.id,
+          status: 'success',
+          ...(job.goalMinOpportunityScore !== null && { opportunityScore: { gte: job.goalMinOpportunityScore } }),
+          ...(job.goalMaxDifficulty !== null && { difficulty: { lte: job.goalMaxDifficulty } }),
+          ...(job.goalMinPopularity !== null && { popularity: { gte: job.goalMinPopularity } }),
+        },
+      });
+      const goalMet = goalKeywords.length;
+
+      if (goalMet >= job.goalKeywordCount) {
+        logger.info(`Job ${job.id}: Goal reached (${goalMet}/${job.goalKeywordCount} keywords)`);
+        return 'goal_reached';
+      }
+    }
+
+    if (job.maxIdleCycles && job.idleCycles >= job.maxIdleCycles) {
+      logger.info(`Job ${job.id}: No new keywords for ${job.idleCycles} consecutive cycles`);
+      return 'no_new_keywords';
+    }
+
+    if (job.maxErrorRate !== null) {
+      const [errors, analyzed] = await Promise.all([
+        prisma.keywordSearchResult.count({ where: { jobId: job.id, status: 'error' } }),
+        prisma.keywordSearchResult.count({ where: { jobId: job.id, status: { in: ['success', 'error'] } } }),
+      ]);
+
+      if (analyzed >= ERROR_RATE_MIN_SAMPLES && (errors / analyzed) * 100 > job.maxErrorRate) {
+        logger.warn(`Job ${job.id}: Error rate ${Math.round((errors / analyzed) * 100)}% exceeds ${job.maxErrorRate}%`);
+        return 'error_rate';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Storefronts a job analyzes keywords in, primary first
+   * Jobs created before multi-country support only have `country`
+   */
+  getJobCountries(job) {
+    const countries = JSON.parse(job.countries || '[]');
+    return countries.length > 0 ? countries : [job.country];
+  }
+
+  /**
+   * Parse the JSON columns of a KeywordSearchResult row
+   */
+  formatResult(result) {
+    return {
+      ...result,
+      topApps: result.topApps ? JSON.parse(result.topApps) : [],
+      relatedTerms: result.relatedTerms ? JSON.parse(result.relatedTerms) : [],
+    };
   }
 
   /**
-   * Get job details with results
+   * Get job details, with all results inline unless includeResults is false
    */
-  async getJobDetails(jobId) {
+  async getJobDetails(jobId, { includeResults = true } = {}) {
     const job = await prisma.keywordSearchJob.findUnique({
       where: { id: jobId },
       include: {
-        results: {
+        results: includeResults && {
           orderBy: { opportunityScore: 'desc' },
         },
+        _count: {
+          select: { results: true },
+        },
       },
     });
 
@@ -554,17 +1371,100 @@ export class JobRunnerService {
       throw new Error('Job not found');
     }
 
+    // Apps that competitor-mined results came from, for filtering
+    const sourceApps = await prisma.keywordSearchResult.groupBy({
+      by: ['sourceAppId', 'sourceAppName'],
+      where: { jobId, sourceAppId: { not: null } },
+    });
+
     return {
       ...job,
       usedKeywords: JSON.parse(job.usedKeywords || '[]'),
-      results: job.results.map(r => ({
-        ...r,
-        topApps: r.topApps ? JSON.parse(r.topApps) : [],
-        relatedTerms: r.relatedTerms ? JSON.parse(r.relatedTerms) : [],
+      seedAppIds: JSON.parse(job.seedAppIds || '[]'),
+      countries: this.getJobCountries(job),
+      sourceApps: sourceApps.map(({ sourceAppId, sourceAppName }) => ({
+        appId: sourceAppId,
+        name: sourceAppName || sourceAppId,
       })),
+      results: job.results ? job.results.map(r => this.formatResult(r)) : undefined,
+    };
+  }
+
+  /**
+   * Build the Prisma filter for a job's results
+   * @param {Object} filters - status, cycle, sourceAppId, keyword, country, min/max popularity, difficulty and opportunityScore
+   */
+  buildResultsWhere(jobId, filters = {}) {
+    const where = { jobId };
+    if (filters.status) where.status = filters.status;
+    if (filters.cycle !== undefined) where.cycleNumber = filters.cycle;
+    if (filters.sourceAppId) where.sourceAppId = filters.sourceAppId;
+    if (filters.keyword) where.keyword = filters.keyword;
+    if (filters.country) where.country = filters.country;
+
+    for (const field of ['popularity', 'difficulty', 'opportunityScore']) {
+      const capitalized = field.charAt(0).toUpperCase() + field.slice(1);
+      const range = {};
+      if (filters[`min${capitalized}`] !== undefined) range.gte = filters[`min${capitalized}`];
+      if (filters[`max${capitalized}`] !== undefined) range.lte = filters[`max${capitalized}`];
+      if (Object.keys(range).length > 0) where[field] = range;
+    }
+
+    return where;
+  }
+
+  /**
+   * Get one page of a job's results with filtering, sorting and cursor pagination
+   * The cursor is the ID of the last result of the previous page
+   */
+  async getJobResults(jobId, filters = {}, options = {}) {
+    const { sortBy = 'opportunityScore', order = 'desc', cursor = null, limit = 100 } = options;
+
+    const job = await prisma.keywordSearchJob.findUnique({
+      where: { id: jobId },
+      select: { id: true, country: true },
+    });
+
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    const where = this.buildResultsWhere(jobId, filters);
+    const nullableFields = ['popularity', 'difficulty', 'opportunityScore', 'competitorCount'];
+    const primaryOrder = nullableFields.includes(sortBy)
+      ? { [sortBy]: { sort: order, nulls: 'last' } }
+      : { [sortBy]: order };
+
+    const [results, total] = await Promise.all([
+      prisma.keywordSearchResult.findMany({
+        where,
+        orderBy: [primaryOrder, { id: 'asc' }],
+        take: limit,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      }),
+      prisma.keywordSearchResult.count({ where }),
+    ]);
+
+    return {
+      // Rows from before multi-country jobs were analyzed in the job's country
+      results: results.map(r => ({ ...this.formatResult(r), country: r.country || job.country })),
+      total,
+      nextCursor: results.length === limit ? results[results.length - 1].id : null,
     };
   }
 
+  /**
+   * Iterate over every matching result page by page (used for streaming exports)
+   */
+  async *iterateJobResults(jobId, filters = {}, options = {}) {
+    let cursor = null;
+    do {
+      const page = await this.getJobResults(jobId, filters, { ...options, cursor, limit: 500 });
+      yield* page.results;
+      cursor = page.nextCursor;
+    } while (cursor);
+  }
+
   /**
    * List all jobs
    */
@@ -577,17 +1477,27 @@ export class JobRunnerService {
         _count: {
           select: { results: true },
         },
+        cycles: {
+          where: { status: 'queued' },
+          orderBy: { runAt: 'asc' },
+          take: 1,
+          select: { runAt: true },
+        },
       },
     });
 
-    return jobs;
+    return jobs.map(({ cycles, ...job }) => ({
+      ...job,
+      countries: this.getJobCountries(job),
+      nextRunAt: cycles[0]?.runAt || null,
+    }));
   }
 
   /**
    * Add keywords from job results to tracked keywords
    */
   async addToTrackedKeywords(jobId, resultIds, sessionId = 'default') {
-    // Get the job to retrieve its country
+    // Get the job to retrieve its country (for results stored without one)
     const job = await prisma.keywordSearchJob.findUnique({
       where: { id: jobId },
       select: { country: true },
@@ -612,7 +1522,7 @@ export class JobRunnerService {
           where: {
             keyword_country_sessionId: {
               keyword: result.keyword,
-              country: job.country,
+              country: result.country || job.country,
               sessionId,
             },
           },
@@ -620,14 +1530,16 @@ export class JobRunnerService {
             popularity: result.popularity,
             difficulty: result.difficulty,
             opportunityScore: result.opportunityScore,
+            scoreVersion: result.scoreVersion,
             competitorCount: result.competitorCount,
           },
           create: {
             keyword: result.keyword,
-            country: job.country,
+            country: result.country || job.country,
             popularity: result.popularity,
             difficulty: result.difficulty,
             opportunityScore: result.opportunityScore,
+            scoreVersion: result.scoreVersion,
             competitorCount: result.competitorCount,
             sessionId,
           },
@@ -662,12 +1574,15 @@ export class JobRunnerService {
       await this.stopJob(jobId);
     }
 
-    // Delete job (cascade will delete results)
+    // Delete job (cascade will delete results and queued cycles)
     await prisma.keywordSearchJob.delete({
       where: { id: jobId },
     });
 
     logger.info(`Deleted job: ${jobId}`);
+    if (job) {
+      await jobEventsService.publish(job, 'job.status', { status: 'deleted' });
+    }
     return { success: true };
   }
 
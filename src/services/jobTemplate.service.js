@@ -0,0 +1,122 @@
+import { prisma } from '../db/prisma.js';
+import { JOB_CONFIG_FIELDS, jobRunnerService } from './jobRunner.service.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * JobTemplate Service - Reusable keyword job configurations
+ * A template stores everything needed to create a job except its name and progress,
+ * so recurring job setups don't have to be re-entered by hand.
+ */
+export class JobTemplateService {
+  /**
+   * List templates, newest first
+   */
+  async listTemplates(sessionId = null) {
+    const templates = await prisma.jobTemplate.findMany({
+      where: sessionId ? { sessionId } : {},
+      orderBy: { createdAt: 'desc' },
+    });
+    return templates.map((template) => this.format(template));
+  }
+
+  /**
+   * Get a single template
+   */
+  async getTemplate(templateId) {
+    const template = await prisma.jobTemplate.findUnique({
+      where: { id: templateId },
+    });
+
+    if (!template) {
+      throw new Error('Template not found');
+    }
+
+    return this.format(template);
+  }
+
+  /**
+   * Create a template from a job configuration
+   */
+  async createTemplate(data) {
+    const { name, sessionId = null, notes = null } = data;
+
+    const template = await prisma.jobTemplate.create({
+      data: {
+        ...this.pickConfig(data),
+        name,
+        sessionId,
+        notes,
+      },
+    });
+
+    logger.info(`Created job template: ${template.id} (${name})`);
+    return this.format(template);
+  }
+
+  /**
+   * Save an existing job's configuration as a template
+   */
+  async createTemplateFromJob(jobId, { name, sessionId } = {}) {
+    const job = await prisma.keywordSearchJob.findUnique({
+      where: { id: jobId },
+    });
+
+    if (!job) {
+      throw new Error('Job not found');
+    }
+
+    return this.createTemplate({
+      ...job,
+      seedAppIds: JSON.parse(job.seedAppIds || '[]'),
+      countries: jobRunnerService.getJobCountries(job),
+      name: name || job.name,
+      sessionId: sessionId || job.sessionId,
+    });
+  }
+
+  /**
+   * Delete a template (jobs created from it are unaffected)
+   */
+  async deleteTemplate(templateId) {
+    const { count } = await prisma.jobTemplate.deleteMany({
+      where: { id: templateId },
+    });
+
+    if (count === 0) {
+      throw new Error('Template not found');
+    }
+
+    logger.info(`Deleted job template: ${templateId}`);
+    return { success: true };
+  }
+
+  /**
+   * Copy the job configuration fields that are set, normalized for storage
+   */
+  pickConfig(data) {
+    const config = {};
+    for (const field of JOB_CONFIG_FIELDS) {
+      if (data[field] !== undefined) config[field] = data[field];
+    }
+
+    config.seedAppIds = JSON.stringify((config.seedAppIds || []).map(String));
+    // The first storefront is the primary one, as on jobs
+    const countries = config.countries || (config.country ? [config.country] : []);
+    config.countries = JSON.stringify(countries);
+    if (countries.length > 0) config.country = countries[0];
+    config.cronExpression = config.scheduleType === 'cron' ? config.cronExpression : null;
+    config.windowStart = config.windowStart || null;
+    config.windowEnd = config.windowEnd || null;
+    return config;
+  }
+
+  format(template) {
+    return {
+      ...template,
+      seedAppIds: JSON.parse(template.seedAppIds || '[]'),
+      countries: jobRunnerService.getJobCountries(template),
+    };
+  }
+}
+
+export const jobTemplateService = new JobTemplateService();
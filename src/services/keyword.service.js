@@ -1,29 +1,106 @@
 import { appStoreService } from './appStore.service.js';
+import { appleSearchAdsService } from './appleSearchAds.service.js';
 import { logger } from '../utils/logger.js';
 import { cache } from '../utils/cache.js';
 import { prisma } from '../db/prisma.js';
 
+const RECOMPUTE_BATCH_SIZE = 500;
+
+// Most autocomplete requests one prefix-depth probe may make (long keywords are sampled evenly)
+export const MAX_PREFIX_PROBES = 8;
+// Share of the kw-v2 popularity taken from the prefix-depth signal
+const PREFIX_POPULARITY_WEIGHT = 0.4;
+
+// Difficulty factor weights (each sums to 100)
+const DIFFICULTY_WEIGHTS = {
+  avgRating: 15,
+  avgRatingCount: 35,
+  topAppStrength: 30,
+  competitorCount: 20,
+};
+// kw-v3 makes room for how directly the competing apps target the keyword
+const TITLE_MATCH_DIFFICULTY_WEIGHTS = {
+  avgRating: 10,
+  avgRatingCount: 30,
+  topAppStrength: 25,
+  competitorCount: 15,
+  titleMatch: 20,
+};
+const TITLE_MATCH_SCORES = { exact: 1, partial: 0.5, none: 0 };
+
+// kw-v2+ popularity: kw-v1 blended with the prefix-depth signal when a probe was archived
+const prefixBlendedPopularity = (keyword, inputs) => {
+  const base = keywordService.estimatePopularity(keyword, inputs.hints, inputs.results);
+  if (!inputs.prefix) return base;
+
+  const blended = base * (1 - PREFIX_POPULARITY_WEIGHT) +
+    keywordService.prefixDepthScore(inputs.prefix) * PREFIX_POPULARITY_WEIGHT;
+  return Math.max(5, Math.min(Math.round(blended), 100));
+};
+
+/**
+ * Keyword metric models
+ * Each picks difficulty factor weights and derives popularity from the archived raw SERP inputs
+ * ({ results: [{ rating, ratingCount, titleMatch }], hints: [{ keyword, position, priority }], prefix: prefix-depth probe }),
+ * so stored analyses can be re-derived under a newer model without calling Apple again.
+ * Models are never changed in place - add a new version and make it current instead.
+ */
+export const KEYWORD_MODELS = {
+  'kw-v1': {
+    description: 'Rating/rating-count competition weights and search hint position/priority',
+    difficultyWeights: () => DIFFICULTY_WEIGHTS,
+    popularity: (keyword, inputs) => keywordService.estimatePopularity(keyword, inputs.hints, inputs.results),
+  },
+  'kw-v2': {
+    description: 'kw-v1 blended with autocomplete prefix depth (inputs without a prefix probe keep kw-v1 popularity)',
+    difficultyWeights: () => DIFFICULTY_WEIGHTS,
+    popularity: prefixBlendedPopularity,
+  },
+  'kw-v3': {
+    description: 'kw-v2 plus competitor title match strength in difficulty (inputs without title matches keep kw-v2 difficulty)',
+    difficultyWeights: (inputs) => (
+      inputs.results.every((app) => app.titleMatch) ? TITLE_MATCH_DIFFICULTY_WEIGHTS : DIFFICULTY_WEIGHTS
+    ),
+    popularity: prefixBlendedPopularity,
+  },
+};
+
+// Model used for new analyses and as the default recompute target
+export const KEYWORD_MODEL_VERSION = 'kw-v3';
+
 export class KeywordService {
   /**
    * Analyze a keyword - get popularity, difficulty, and related data
    */
   async analyzeKeyword(keyword, country = 'us') {
-    const cacheKey = `keyword:${keyword}:${country}`;
-    const cached = cache.get(cacheKey);
-    if (cached) return cached;
+    // Slightly old analyses are served instantly and refreshed in the background
+    return cache.wrap(`keyword:${keyword}:${country}`, () => this.fetchAnalysis(keyword, country));
+  }
 
+  /**
+   * Run a fresh analysis against the App Store and save it
+   */
+  async fetchAnalysis(keyword, country) {
     try {
-      // Get search results to calculate difficulty
-      const searchResults = await appStoreService.searchApps(keyword, country, 10);
+      // Get search results to calculate difficulty, noting how directly each app targets the keyword
+      const searchResults = (await appStoreService.searchApps(keyword, country, 10)).map((app) => ({
+        ...app,
+        titleMatch: this.matchStrength(keyword, app),
+      }));
 
       // Get search suggestions to estimate popularity
       const suggestions = await appStoreService.getSearchSuggestions(keyword, country);
 
-      // Calculate difficulty based on competition
-      const difficulty = this.calculateDifficulty(searchResults);
+      // How short a prefix already surfaces the keyword in autocomplete
+      const prefixDepth = await this.probePrefixDepth(keyword, country);
+
+      // Apple's own popularity, when Search Ads credentials are configured
+      const searchAdsPopularity = await this.getSearchAdsPopularity(keyword, country);
 
-      // Estimate popularity based on suggestions and search results
-      const popularity = this.estimatePopularity(keyword, suggestions, searchResults);
+      // Keep the raw inputs so the metrics can be re-derived later
+      const rawInputs = this.extractRawInputs(searchResults, suggestions, prefixDepth, searchAdsPopularity);
+      const { difficulty, difficultyFactors, popularity, popularitySource } =
+        this.applyModel(KEYWORD_MODEL_VERSION, keyword, rawInputs);
 
       // Get top competing apps
       const topApps = searchResults.slice(0, 5).map((app, index) => ({
@@ -35,16 +112,27 @@ export class KeywordService {
         ratingCount: app.ratingCount,
         icon: app.icon,
         category: app.category,
+        titleMatch: app.titleMatch,
       }));
 
       const result = {
         keyword,
         country,
         popularity,
+        popularitySource,
         difficulty,
+        difficultyFactors,
         competitorCount: searchResults.length,
         topApps,
         relatedTerms: suggestions.slice(0, 10).map((s) => s.keyword),
+        titleMatches: searchResults.map((app, index) => ({
+          rank: index + 1,
+          id: app.id,
+          name: app.name,
+          titleMatch: app.titleMatch,
+        })),
+        prefixDepth,
+        modelVersion: KEYWORD_MODEL_VERSION,
         analyzedAt: new Date().toISOString(),
       };
 
@@ -55,10 +143,13 @@ export class KeywordService {
             keyword: result.keyword,
             country: result.country,
             popularity: result.popularity,
+            popularitySource: result.popularitySource,
             difficulty: result.difficulty,
             competitorCount: result.competitorCount,
             topApps: JSON.stringify(result.topApps),
             relatedTerms: JSON.stringify(result.relatedTerms),
+            rawInputs: JSON.stringify(rawInputs),
+            modelVersion: result.modelVersion,
             analyzedAt: new Date(result.analyzedAt),
           },
         });
@@ -67,7 +158,6 @@ export class KeywordService {
         logger.error('Failed to save keyword analysis to database:', dbError.message);
       }
 
-      cache.set(cacheKey, result, 3600);
       return result;
     } catch (error) {
       logger.error('Error analyzing keyword:', error.message);
@@ -77,6 +167,7 @@ export class KeywordService {
 
   /**
    * Bulk analyze multiple keywords
+   * Analyses start together; App Store calls queue in the shared upstream client's limits.
    */
   async analyzeKeywords(keywords, country = 'us') {
     const results = await Promise.allSettled(
@@ -91,46 +182,269 @@ export class KeywordService {
     }));
   }
 
+  /**
+   * Reduce search results and hints to the fields the keyword models read
+   */
+  extractRawInputs(searchResults, suggestions, prefixDepth = null, searchAdsPopularity = null) {
+    return {
+      prefix: prefixDepth,
+      searchAdsPopularity,
+      results: (searchResults || []).map((app) => ({
+        rating: app.rating ?? null,
+        ratingCount: app.ratingCount ?? null,
+        titleMatch: app.titleMatch,
+      })),
+      hints: (suggestions || []).map((hint) => ({
+        keyword: hint.keyword,
+        position: hint.position,
+        priority: hint.priority ?? null,
+      })),
+    };
+  }
+
+  /**
+   * Get Apple Search Ads popularity for a keyword
+   * @returns {Promise<number|null>} null when Search Ads is not configured, has no data or fails
+   */
+  async getSearchAdsPopularity(keyword, country = 'us') {
+    if (!appleSearchAdsService.isConfigured()) return null;
+
+    try {
+      const popularity = await appleSearchAdsService.getPopularity([keyword], country);
+      return popularity[keyword.toLowerCase()] ?? null;
+    } catch (error) {
+      logger.warn(`Falling back to estimated popularity for "${keyword}": ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Find the shortest prefix whose autocomplete hints contain the keyword
+   * Probes progressively longer prefixes (at most MAX_PREFIX_PROBES) and stops at the first hit.
+   * @returns {Object} { keywordLength, prefixLength, position, priority, probes } - prefixLength is null
+   *   when no probed prefix surfaced the keyword
+   */
+  async probePrefixDepth(keyword, country = 'us') {
+    const term = keyword.trim().toLowerCase();
+    const cacheKey = `prefix-depth:${term}:${country}`;
+    const cached = await cache.get(cacheKey);
+    if (cached) return cached;
+
+    const probe = {
+      keywordLength: term.length,
+      prefixLength: null,
+      position: null,
+      priority: null,
+      probes: 0,
+    };
+
+    for (const length of this.prefixLengths(term)) {
+      const hints = await appStoreService.getSearchSuggestions(term.slice(0, length), country);
+      probe.probes++;
+
+      const match = hints.find((hint) => hint.keyword.toLowerCase() === term);
+      if (match) {
+        probe.prefixLength = length;
+        probe.position = match.position;
+        probe.priority = match.priority ?? null;
+        break;
+      }
+    }
+
+    cache.set(cacheKey, probe);
+    return probe;
+  }
+
+  /**
+   * Prefix lengths to probe, shortest first
+   * Stops short of the full keyword (its own hints are fetched by the analysis) and skips
+   * prefixes ending in a space, which autocomplete treats like the shorter prefix.
+   */
+  prefixLengths(term) {
+    const candidates = [];
+    for (let length = 1; length < term.length; length++) {
+      if (term[length - 1] !== ' ') candidates.push(length);
+    }
+    if (candidates.length <= MAX_PREFIX_PROBES) return candidates;
+
+    const step = candidates.length / MAX_PREFIX_PROBES;
+    return Array.from({ length: MAX_PREFIX_PROBES }, (_, i) => candidates[Math.floor(i * step)]);
+  }
+
+  /**
+   * Popularity signal (0-100) from a prefix-depth probe
+   * Surfacing after fewer typed characters, and higher in the hint list, means more searches
+   */
+  prefixDepthScore(prefix) {
+    if (!prefix || !prefix.prefixLength || !prefix.keywordLength) return 0;
+
+    const typedShare = (prefix.prefixLength - 1) / prefix.keywordLength;
+    const positionPenalty = Math.max(0, (prefix.position || 1) - 1) * 4;
+    return Math.max(0, Math.min(100, (1 - typedShare) * 100 - positionPenalty));
+  }
+
+  /**
+   * Derive difficulty (with its factor breakdown) and popularity (with its source) from raw inputs
+   * with a given model version
+   */
+  applyModel(modelVersion, keyword, rawInputs) {
+    const model = KEYWORD_MODELS[modelVersion];
+    if (!model) {
+      throw new Error(`Unknown keyword model: ${modelVersion}`);
+    }
+
+    // A real Search Ads popularity always wins over the model's estimate
+    const searchAdsPopularity = rawInputs.searchAdsPopularity ?? null;
+    const weights = model.difficultyWeights(rawInputs);
+    return {
+      difficulty: this.calculateDifficulty(rawInputs.results, weights),
+      difficultyFactors: this.difficultyBreakdown(rawInputs.results, weights),
+      popularity: searchAdsPopularity ?? model.popularity(keyword, rawInputs),
+      popularitySource: searchAdsPopularity !== null ? 'apple_search_ads' : 'estimate',
+    };
+  }
+
+  /**
+   * Re-derive difficulty and popularity of stored analyses under a model version
+   * Only rows with archived raw inputs can be recomputed; older rows are counted as skipped.
+   * @param {Object} options - { modelVersion, country, keyword }
+   */
+  async recomputeAnalyses({ modelVersion = KEYWORD_MODEL_VERSION, country, keyword } = {}) {
+    if (!KEYWORD_MODELS[modelVersion]) {
+      throw new Error(`Unknown keyword model: ${modelVersion}`);
+    }
+
+    const filter = {
+      ...(country && { country }),
+      ...(keyword && { keyword }),
+    };
+    const where = {
+      ...filter,
+      rawInputs: { not: null },
+      OR: [{ modelVersion: null }, { modelVersion: { not: modelVersion } }],
+    };
+
+    let lastId = null;
+    let updated = 0;
+
+    for (;;) {
+      const batch = await prisma.keywordAnalysis.findMany({
+        where: lastId ? { ...where, id: { gt: lastId } } : where,
+        orderBy: { id: 'asc' },
+        take: RECOMPUTE_BATCH_SIZE,
+        select: { id: true, keyword: true, rawInputs: true },
+      });
+      if (batch.length === 0) break;
+
+      await prisma.$transaction(batch.map((row) => {
+        const { difficulty, popularity, popularitySource } =
+          this.applyModel(modelVersion, row.keyword, JSON.parse(row.rawInputs));
+        return prisma.keywordAnalysis.update({
+          where: { id: row.id },
+          data: { difficulty, popularity, popularitySource, modelVersion },
+        });
+      }));
+
+      updated += batch.length;
+      lastId = batch[batch.length - 1].id;
+    }
+
+    const skipped = await prisma.keywordAnalysis.count({
+      where: { ...filter, rawInputs: null },
+    });
+
+    logger.info(`Recomputed ${updated} keyword analyses with ${modelVersion} (${skipped} without raw inputs skipped)`);
+    return { modelVersion, updated, skipped };
+  }
+
+  /**
+   * How directly an app targets a keyword
+   * exact = the whole phrase is in the title; partial = some of its words are in the title,
+   * or the whole phrase is in the description; none = neither
+   * Stopwords ("app", "for", "the") never count as a partial title match.
+   */
+  matchStrength(keyword, app) {
+    const normalize = (text) => ` ${(text || '').toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()} `;
+    const phrase = normalize(keyword);
+    const title = normalize(app.name);
+
+    if (!phrase.trim()) return 'none';
+    if (title.includes(phrase)) return 'exact';
+
+    const words = phrase.trim().split(' ').filter((word) => !appStoreService.isStopWord(word));
+    if (words.length === 0) return 'none';
+
+    const partialTitle = words.some((word) => title.includes(` ${word} `));
+    if (partialTitle || normalize(app.description).includes(phrase)) return 'partial';
+    return 'none';
+  }
+
   /**
    * Calculate keyword difficulty based on competing apps
    * Returns a score from 0-100 (higher = more difficult)
+   * @param {Array} searchResults - Apps with rating, ratingCount and (for the titleMatch factor) titleMatch
+   * @param {Object} weights - Factor weights; titleMatch is only scored when it has a weight
    */
-  calculateDifficulty(searchResults) {
+  calculateDifficulty(searchResults, weights = DIFFICULTY_WEIGHTS) {
     if (!searchResults || searchResults.length === 0) {
       return 10; // Low difficulty if no competition
     }
 
-    let difficultyScore = 0;
-    const weights = {
-      avgRating: 15,
-      avgRatingCount: 35,
-      topAppStrength: 30,
-      competitorCount: 20,
-    };
+    const difficultyScore = this.difficultyFactors(searchResults, weights)
+      .reduce((sum, { normalized, weight }) => sum + normalized * weight, 0);
+    return Math.round(Math.min(difficultyScore, 100));
+  }
+
+  /**
+   * Explain a difficulty score factor by factor, rounded for display
+   * @returns {Array} [{ factor, raw, normalized (0-1), weight, contribution (normalized * weight) }],
+   *   empty when there is no competition
+   */
+  difficultyBreakdown(searchResults, weights = DIFFICULTY_WEIGHTS) {
+    if (!searchResults || searchResults.length === 0) return [];
+
+    return this.difficultyFactors(searchResults, weights).map(({ factor, raw, normalized, weight }) => ({
+      factor,
+      raw: Math.round(raw * 100) / 100,
+      normalized: Math.round(normalized * 1000) / 1000,
+      weight,
+      contribution: Math.round(normalized * weight * 10) / 10,
+    }));
+  }
+
+  /**
+   * Raw and normalized value of each weighted difficulty factor
+   */
+  difficultyFactors(searchResults, weights) {
+    const average = (value) => searchResults.reduce((sum, app) => sum + value(app), 0) / searchResults.length;
 
     // Average rating of top 10 apps
-    const avgRating = searchResults.reduce((sum, app) => sum + (app.rating || 0), 0) / searchResults.length;
-    difficultyScore += (avgRating / 5) * weights.avgRating;
+    const avgRating = average((app) => app.rating || 0);
 
     // Average rating count (normalized, cap at 100k)
-    const avgRatingCount = searchResults.reduce((sum, app) => sum + (app.ratingCount || 0), 0) / searchResults.length;
-    const normalizedRatingCount = Math.min(avgRatingCount / 100000, 1);
-    difficultyScore += normalizedRatingCount * weights.avgRatingCount;
+    const avgRatingCount = average((app) => app.ratingCount || 0);
 
     // Top app strength (first 3 apps)
-    const topApps = searchResults.slice(0, 3);
-    const topAppScore = topApps.reduce((sum, app) => {
+    const topAppScore = searchResults.slice(0, 3).reduce((sum, app) => {
       const ratingScore = (app.rating || 0) / 5;
       const countScore = Math.min((app.ratingCount || 0) / 500000, 1);
       return sum + (ratingScore * 0.3 + countScore * 0.7);
     }, 0) / 3;
-    difficultyScore += topAppScore * weights.topAppStrength;
 
-    // Competitor count factor
-    const competitorFactor = Math.min(searchResults.length / 10, 1);
-    difficultyScore += competitorFactor * weights.competitorCount;
+    const factors = [
+      { factor: 'avgRating', raw: avgRating, normalized: avgRating / 5 },
+      { factor: 'avgRatingCount', raw: avgRatingCount, normalized: Math.min(avgRatingCount / 100000, 1) },
+      { factor: 'topAppStrength', raw: topAppScore, normalized: topAppScore },
+      { factor: 'competitorCount', raw: searchResults.length, normalized: Math.min(searchResults.length / 10, 1) },
+    ];
 
-    return Math.round(Math.min(difficultyScore, 100));
+    // Title match strength - apps with the exact phrase in their title are stronger competition
+    if (weights.titleMatch) {
+      const matchScore = average((app) => TITLE_MATCH_SCORES[app.titleMatch] || 0);
+      factors.push({ factor: 'titleMatch', raw: matchScore, normalized: matchScore });
+    }
+
+    return factors.map((factor) => ({ ...factor, weight: weights[factor.factor] }));
   }
 
   /**
@@ -201,42 +515,6 @@ export class KeywordService {
     }
   }
 
-  /**
-   * Find long-tail keyword opportunities
-   */
-  async findLongTailKeywords(seedKeyword, country = 'us') {
-    const modifiers = [
-      'best', 'free', 'top', 'app', 'apps', 'pro', 'lite', 'easy',
-      'simple', 'fast', 'quick', 'new', 'online', 'offline', 'mobile',
-    ];
-
-    const longTailKeywords = [];
-
-    // Generate combinations
-    for (const modifier of modifiers) {
-      longTailKeywords.push(`${modifier} ${seedKeyword}`);
-      longTailKeywords.push(`${seedKeyword} ${modifier}`);
-    }
-
-    // Analyze a subset
-    const results = await this.analyzeKeywords(
-      longTailKeywords.slice(0, 15),
-      country
-    );
-
-    // Filter for good opportunities (low difficulty, decent popularity)
-    return results
-      .filter((r) => r.success && r.data)
-      .map((r) => r.data)
-      .filter((kw) => kw.difficulty < 50 && kw.popularity > 15)
-      .sort((a, b) => {
-        // Score = popularity / difficulty (higher is better)
-        const scoreA = a.popularity / (a.difficulty || 1);
-        const scoreB = b.popularity / (b.difficulty || 1);
-        return scoreB - scoreA;
-      });
-  }
-
   /**
    * Track keyword ranking for an app
    */
@@ -0,0 +1,184 @@
+import { appStoreService } from './appStore.service.js';
+import { keywordService } from './keyword.service.js';
+import { scoringService } from './scoring.service.js';
+import { config } from '../config/index.js';
+import { logger } from '../utils/logger.js';
+
+const LETTERS = 'abcdefghijklmnopqrstuvwxyz'.split('');
+const DIGITS = '0123456789'.split('');
+// Autocomplete requests made in parallel while expanding one node
+const EXPANSION_CONCURRENCY = 6;
+// Keywords analyzed in parallel when attaching metrics
+const ANALYSIS_BATCH_SIZE = 5;
+
+const normalize = (text) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+/**
+ * LongTail Service - Recursive autocomplete tree explorer
+ * Expands a seed keyword through App Store autocomplete ("seed a".."seed z", "seeda".."seed9"),
+ * then expands each suggestion the same way up to a depth limit. Every keyword appears once in the
+ * tree (at the shallowest branch that found it), and nodes carry popularity/difficulty metrics.
+ */
+export class LongTailService {
+  /**
+   * Explore the long-tail tree for a seed keyword
+   * @param {Object} options - depth (levels below the seed), maxChildren (per node),
+   *   maxNodes (whole tree), analyze (attach keyword metrics)
+   * @returns {Promise<Object>} { tree, stats: { nodes, requests, depth, truncated } }
+   */
+  async exploreTree(seedKeyword, country = 'us', options = {}) {
+    const {
+      depth = 2,
+      maxChildren = 8,
+      maxNodes = 40,
+      analyze = true,
+    } = options;
+    const maxDepth = Math.min(depth, config.longTail.maxDepth);
+
+    const seed = normalize(seedKeyword);
+    const root = this.createNode(seed, 0, null);
+    const seen = new Set([seed]);
+    const state = { nodes: 1, requests: 0, truncated: false };
+
+    // Breadth-first, so a keyword reachable from several branches lands at its shallowest one
+    let level = [root];
+    for (let currentDepth = 0; currentDepth < maxDepth && level.length > 0; currentDepth++) {
+      const nextLevel = [];
+
+      for (const node of level) {
+        if (state.nodes >= maxNodes || state.requests >= config.longTail.maxRequests) {
+          state.truncated = true;
+          break;
+        }
+
+        const candidates = await this.expand(node.keyword, country, state);
+        for (const candidate of candidates) {
+          if (node.children.length >= maxChildren || state.nodes >= maxNodes) break;
+          if (seen.has(candidate.keyword)) continue;
+
+          seen.add(candidate.keyword);
+          const child = this.createNode(candidate.keyword, currentDepth + 1, candidate);
+          node.children.push(child);
+          nextLevel.push(child);
+          state.nodes++;
+        }
+      }
+
+      level = nextLevel;
+    }
+
+    if (analyze) {
+      await this.attachMetrics(root, country);
+    }
+
+    logger.info(`Long-tail tree for "${seed}" (${country}): ${state.nodes} nodes, ${state.requests} autocomplete requests`);
+    return {
+      tree: root,
+      stats: {
+        nodes: state.nodes,
+        requests: state.requests,
+        depth: maxDepth,
+        truncated: state.truncated,
+      },
+    };
+  }
+
+  /**
+   * Autocomplete queries used to expand a term, most useful first
+   * "term a".."term z" find new words; "terma".."term9" complete the last word
+   */
+  expansionQueries(term) {
+    return [
+      term,
+      ...LETTERS.map((c) => `${term} ${c}`),
+      ...[...LETTERS, ...DIGITS].map((c) => `${term}${c}`),
+    ];
+  }
+
+  /**
+   * Collect the suggestions that extend a term, best ranked first
+   * A suggestion must be longer than the term and contain its words; the last word may be extended,
+   * so the term+letter queries can return completions like "photo editors" for "photo editor".
+   */
+  async expand(term, country, state) {
+    const termWords = term.split(' ');
+    const lastWord = termWords.pop();
+    const allQueries = this.expansionQueries(term);
+    const queries = allQueries.slice(0, Math.max(0, config.longTail.maxRequests - state.requests));
+    if (queries.length < allQueries.length) state.truncated = true;
+
+    const candidates = new Map();
+    for (let i = 0; i < queries.length; i += EXPANSION_CONCURRENCY) {
+      const batch = queries.slice(i, i + EXPANSION_CONCURRENCY);
+      const results = await Promise.all(
+        batch.map((query) => appStoreService.getSearchSuggestions(query, country))
+      );
+      state.requests += batch.length;
+
+      results.forEach((suggestions, index) => {
+        for (const suggestion of suggestions) {
+          const keyword = normalize(suggestion.keyword);
+          const words = keyword.split(' ');
+          if (
+            keyword.length <= term.length ||
+            !termWords.every((word) => words.includes(word)) ||
+            !words.some((word) => word.startsWith(lastWord))
+          ) continue;
+
+          const existing = candidates.get(keyword);
+          if (!existing || suggestion.priority > existing.priority) {
+            candidates.set(keyword, {
+              keyword,
+              priority: suggestion.priority,
+              position: suggestion.position,
+              sourceQuery: batch[index],
+            });
+          }
+        }
+      });
+    }
+
+    return [...candidates.values()].sort((a, b) => b.priority - a.priority || a.position - b.position);
+  }
+
+  createNode(keyword, depth, candidate) {
+    return {
+      keyword,
+      depth,
+      priority: candidate?.priority ?? null,
+      position: candidate?.position ?? null,
+      sourceQuery: candidate?.sourceQuery ?? null,
+      metrics: null,
+      children: [],
+    };
+  }
+
+  /**
+   * Analyze every node in the tree and attach popularity, difficulty and opportunity
+   * Nodes whose analysis fails keep metrics: null.
+   */
+  async attachMetrics(root, country) {
+    const nodes = this.flatten(root);
+
+    for (let i = 0; i < nodes.length; i += ANALYSIS_BATCH_SIZE) {
+      const batch = nodes.slice(i, i + ANALYSIS_BATCH_SIZE);
+      const results = await keywordService.analyzeKeywords(batch.map((node) => node.keyword), country);
+
+      for (const [index, result] of results.entries()) {
+        if (!result.success) continue;
+        const { popularity, difficulty, competitorCount } = result.data;
+        const { opportunityScore } = await scoringService.score(popularity, difficulty);
+        batch[index].metrics = { popularity, difficulty, competitorCount, opportunityScore };
+      }
+    }
+  }
+
+  /**
+   * All nodes of a tree, parents before children
+   */
+  flatten(node) {
+    return [node, ...node.children.flatMap((child) => this.flatten(child))];
+  }
+}
+
+export const longTailService = new LongTailService();
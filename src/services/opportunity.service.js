@@ -1,37 +1,11 @@
 import { aiService } from './ai.service.js';
 import { keywordService } from './keyword.service.js';
 import { globalKeywordBankService } from './globalKeywordBank.service.js';
+import { scoringService } from './scoring.service.js';
 import { logger } from '../utils/logger.js';
 import { prisma } from '../db/prisma.js';
 
 export class OpportunityService {
-  /**
-   * Calculate opportunity score for a keyword
-   * Higher score = better opportunity (high popularity + low/moderate difficulty)
-   * @param {number} popularity - 0-100
-   * @param {number} difficulty - 0-100
-   * @returns {number} - Opportunity score 0-100
-   */
-  calculateOpportunityScore(popularity, difficulty) {
-    // Normalize popularity (0-100 → 0-1)
-    const popScore = popularity / 100;
-
-    // Inverse difficulty (easier = better)
-    // Sweet spot: 0-30 difficulty = 1.0, 31-60 = 0.7-0.3, 61-100 = 0.3
-    let diffScore;
-    if (difficulty <= 30) {
-      diffScore = 1.0;
-    } else if (difficulty <= 60) {
-      diffScore = 0.7 - ((difficulty - 30) / 30) * 0.4;
-    } else {
-      diffScore = 0.3;
-    }
-
-    // Weighted: 60% popularity, 40% difficulty
-    const score = (popScore * 0.6 + diffScore * 0.4) * 100;
-    return Math.round(score);
-  }
-
   /**
    * Filter and sort keywords based on criteria
    * @param {Array} keywords - Array of keyword analysis results
@@ -106,10 +80,10 @@ export class OpportunityService {
       logger.info(`Successfully analyzed ${allResults.length} keywords`);
 
       // Step 3: Calculate opportunity scores
-      const keywordsWithScores = allResults.map((k) => ({
+      const keywordsWithScores = await Promise.all(allResults.map(async (k) => ({
         ...k,
-        opportunityScore: this.calculateOpportunityScore(k.popularity, k.difficulty),
-      }));
+        ...(await scoringService.score(k.popularity, k.difficulty)),
+      })));
 
       // Step 4: Apply filters and sort
       const filteredKeywords = this.filterAndSortKeywords(keywordsWithScores, filters);
@@ -143,6 +117,7 @@ export class OpportunityService {
             difficulty: kw.difficulty,
             competitorCount: kw.competitorCount,
             opportunityScore: kw.opportunityScore,
+            scoreVersion: kw.scoreVersion,
             topApps: kw.topApps,
             relatedTerms: kw.relatedTerms,
           }, 'opportunity_discovery', null);
@@ -0,0 +1,156 @@
+import { appStoreService, REVIEW_FEED_MAX_PAGES } from './appStore.service.js';
+import { globalKeywordBankService } from './globalKeywordBank.service.js';
+import { prisma } from '../db/prisma.js';
+import { logger } from '../utils/logger.js';
+
+// Phrases are mined per sentence so n-grams never span two sentences
+const SENTENCE_SPLIT = /[.!?;\n]+/;
+
+/**
+ * Reviews Service - Customer review ingestion and keyword mining
+ * Pages through an app's iTunes customer-reviews feed into AppReview (deduplicated by Apple's
+ * review ID) and mines the phrases users write, which feed the global keyword bank as candidates.
+ */
+export class ReviewsService {
+  /**
+   * Fetch an app's reviews for one storefront and store the new ones
+   * The feed is newest first, so by default paging stops at the first page with nothing new.
+   * @param {Object} options - maxPages (1-10), full (keep paging past known reviews)
+   * @returns {Promise<Object>} { appId, country, pages, fetched, added }
+   */
+  async ingest(appId, country = 'us', options = {}) {
+    const { maxPages = REVIEW_FEED_MAX_PAGES, full = false } = options;
+    const result = { appId: String(appId), country, pages: 0, fetched: 0, added: 0 };
+
+    for (let page = 1; page <= Math.min(maxPages, REVIEW_FEED_MAX_PAGES); page++) {
+      const reviews = await appStoreService.getCustomerReviews(appId, country, page);
+      result.pages++;
+      if (reviews.length === 0) break;
+      result.fetched += reviews.length;
+
+      const existing = await prisma.appReview.findMany({
+        where: { reviewId: { in: reviews.map((review) => review.reviewId) } },
+        select: { reviewId: true },
+      });
+      const known = new Set(existing.map((review) => review.reviewId));
+      const fresh = reviews.filter((review) => !known.has(review.reviewId));
+
+      let added = 0;
+      for (const review of fresh) {
+        try {
+          await prisma.appReview.create({
+            data: {
+              ...review,
+              appId: String(appId),
+              country,
+              reviewedAt: review.reviewedAt ? new Date(review.reviewedAt) : new Date(),
+            },
+          });
+          added++;
+        } catch (error) {
+          // Unique constraint: a concurrent ingest of the same app stored this review first
+          if (error.code !== 'P2002') throw error;
+        }
+      }
+      result.added += added;
+
+      if (added === 0 && !full) break;
+    }
+
+    logger.info(`Ingested reviews for app ${appId} (${country}): ${result.added} new of ${result.fetched} fetched`);
+    return result;
+  }
+
+  /**
+   * Get stored reviews, newest first
+   * @param {Object} options - rating (1-5), limit, offset
+   * @returns {Promise<Object>} { total, ratingCounts, reviews }
+   */
+  async getReviews(appId, country = 'us', options = {}) {
+    const { rating, limit = 50, offset = 0 } = options;
+    const where = { appId: String(appId), country, ...(rating && { rating }) };
+
+    const [total, reviews, ratings] = await Promise.all([
+      prisma.appReview.count({ where }),
+      prisma.appReview.findMany({
+        where,
+        orderBy: { reviewedAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.appReview.groupBy({
+        by: ['rating'],
+        where: { appId: String(appId), country },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const ratingCounts = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+    for (const group of ratings) {
+      ratingCounts[group.rating] = group._count._all;
+    }
+
+    return { total, ratingCounts, reviews };
+  }
+
+  /**
+   * Mine 2-3 word phrases from stored review text
+   * Each phrase is counted once per review that uses it; phrases with a low average rating point at complaints.
+   * @param {Object} options - minReviews (drop rarer phrases), limit, rating (only mine reviews with this rating)
+   * @returns {Promise<Object>} { appId, country, reviewCount, phrases: [{ phrase, reviews, avgRating }] }
+   */
+  async minePhrases(appId, country = 'us', options = {}) {
+    const { minReviews = 2, limit = 50, rating } = options;
+    const reviews = await prisma.appReview.findMany({
+      where: { appId: String(appId), country, ...(rating && { rating }) },
+      select: { title: true, body: true, rating: true },
+    });
+
+    const counts = new Map();
+    for (const review of reviews) {
+      const phrases = new Set(
+        `${review.title}\n${review.body}`
+          .split(SENTENCE_SPLIT)
+          .flatMap((sentence) => appStoreService.extractPhrases(sentence, 3, 1))
+      );
+
+      for (const phrase of phrases) {
+        const entry = counts.get(phrase) || { phrase, reviews: 0, ratingSum: 0 };
+        entry.reviews++;
+        entry.ratingSum += review.rating;
+        counts.set(phrase, entry);
+      }
+    }
+
+    const phrases = [...counts.values()]
+      .filter((entry) => entry.reviews >= minReviews)
+      .sort((a, b) => b.reviews - a.reviews || b.phrase.split(' ').length - a.phrase.split(' ').length)
+      .slice(0, limit)
+      .map((entry) => ({
+        phrase: entry.phrase,
+        reviews: entry.reviews,
+        avgRating: Math.round((entry.ratingSum / entry.reviews) * 10) / 10,
+      }));
+
+    return { appId: String(appId), country, reviewCount: reviews.length, phrases };
+  }
+
+  /**
+   * Add an app's most common review phrases to the global keyword bank as unanalyzed candidates
+   * @returns {Promise<Object>} { candidates, added }
+   */
+  async feedKeywordBank(appId, country = 'us', options = {}) {
+    const { phrases } = await this.minePhrases(appId, country, options);
+    const added = await globalKeywordBankService.addCandidates(
+      phrases.map((entry) => entry.phrase),
+      country,
+      'review_mining',
+      String(appId)
+    );
+
+    logger.info(`Added ${added} review phrases for app ${appId} (${country}) to the global keyword bank`);
+    return { candidates: phrases.length, added };
+  }
+}
+
+export const reviewsService = new ReviewsService();
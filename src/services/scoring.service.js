@@ -0,0 +1,222 @@
+import { prisma } from '../db/prisma.js';
+import { logger } from '../utils/logger.js';
+
+// How long the active settings are cached before re-reading them (other instances may change them)
+const SETTINGS_CACHE_MS = 60000;
+const RECOMPUTE_BATCH_SIZE = 500;
+// Tables holding opportunity scores, rescored together so lists and exports never mix versions
+const SCORED_MODELS = {
+  bank: 'globalKeywordBank',
+  results: 'keywordSearchResult',
+  tracked: 'trackedKeyword',
+};
+
+/**
+ * Named opportunity scoring formulas
+ * Each takes popularity and difficulty (0-100) and returns a 0-100 score.
+ * Formulas are never changed in place - add a new name (e.g. "weighted-v2") instead,
+ * so stored scoreVersion values keep meaning what they meant.
+ */
+export const SCORING_FORMULAS = {
+  'weighted-v1': {
+    description: 'Weighted popularity plus inverse difficulty with a 0-30 sweet spot',
+    defaultWeights: { popularity: 0.6, difficulty: 0.4 },
+    score(popularity, difficulty, weights) {
+      // Normalize popularity (0-100 → 0-1)
+      const popScore = popularity / 100;
+
+      // Inverse difficulty (easier = better)
+      // Sweet spot: 0-30 difficulty = 1.0, 31-60 = 0.7-0.3, 61-100 = 0.3
+      let diffScore;
+      if (difficulty <= 30) {
+        diffScore = 1.0;
+      } else if (difficulty <= 60) {
+        diffScore = 0.7 - ((difficulty - 30) / 30) * 0.4;
+      } else {
+        diffScore = 0.3;
+      }
+
+      const totalWeight = weights.popularity + weights.difficulty || 1;
+      return ((popScore * weights.popularity + diffScore * weights.difficulty) / totalWeight) * 100;
+    },
+  },
+  'ratio-v1': {
+    description: 'Popularity to difficulty ratio (popularity / difficulty * 10), capped at 100',
+    defaultWeights: {},
+    score(popularity, difficulty) {
+      if (difficulty <= 0) return 0;
+      return Math.min((popularity / difficulty) * 10, 100);
+    },
+  },
+};
+
+const DEFAULT_SETTINGS = { formula: 'weighted-v1', weights: {}, revision: 1 };
+
+/**
+ * Scoring Service - The single place opportunity scores are computed
+ * Every score is returned with a version ("<formula>.r<revision>") that is stored next to it,
+ * so scores produced under other formulas or weights can be found and recomputed.
+ */
+export class ScoringService {
+  constructor() {
+    this.settings = null;
+    this.loadedAt = 0;
+  }
+
+  /**
+   * List the available formulas with their default weights
+   */
+  listFormulas() {
+    return Object.entries(SCORING_FORMULAS).map(([name, formula]) => ({
+      name,
+      description: formula.description,
+      defaultWeights: formula.defaultWeights,
+    }));
+  }
+
+  /**
+   * Get the active formula, effective weights and score version
+   */
+  async getSettings() {
+    if (this.settings && Date.now() - this.loadedAt < SETTINGS_CACHE_MS) {
+      return this.settings;
+    }
+
+    const row = await prisma.scoringSettings.findUnique({ where: { id: 'default' } });
+    const stored = row
+      ? { formula: row.formula, weights: JSON.parse(row.weights || '{}'), revision: row.revision }
+      : DEFAULT_SETTINGS;
+
+    // Fall back to the default formula if a stored one was removed
+    const formulaName = SCORING_FORMULAS[stored.formula] ? stored.formula : DEFAULT_SETTINGS.formula;
+    const formula = SCORING_FORMULAS[formulaName];
+
+    this.settings = {
+      formula: formulaName,
+      weights: { ...formula.defaultWeights, ...stored.weights },
+      revision: stored.revision,
+      version: `${formulaName}.r${stored.revision}`,
+    };
+    this.loadedAt = Date.now();
+    return this.settings;
+  }
+
+  /**
+   * Change the active formula and/or weights
+   * Weights are merged over the formula's defaults; switching formula resets overrides not given.
+   */
+  async updateSettings({ formula, weights }) {
+    const current = await this.getSettings();
+    const formulaName = formula || current.formula;
+    const definition = SCORING_FORMULAS[formulaName];
+
+    if (!definition) {
+      throw new Error(`Unknown scoring formula: ${formulaName}`);
+    }
+
+    const unknownWeight = Object.keys(weights || {}).find((key) => !(key in definition.defaultWeights));
+    if (unknownWeight) {
+      throw new Error(`Unknown weight for ${formulaName}: ${unknownWeight}`);
+    }
+
+    const overrides = formulaName === current.formula
+      ? { ...current.weights, ...weights }
+      : { ...weights };
+
+    const row = await prisma.scoringSettings.upsert({
+      where: { id: 'default' },
+      update: {
+        formula: formulaName,
+        weights: JSON.stringify(overrides),
+        revision: { increment: 1 },
+      },
+      create: {
+        id: 'default',
+        formula: formulaName,
+        weights: JSON.stringify(overrides),
+        revision: DEFAULT_SETTINGS.revision + 1,
+      },
+    });
+
+    this.settings = null;
+    logger.info(`Scoring settings updated: ${row.formula}.r${row.revision}`);
+    return this.getSettings();
+  }
+
+  /**
+   * Score a keyword with the active formula
+   * @returns {Promise<{opportunityScore: number, scoreVersion: string}>}
+   */
+  async score(popularity, difficulty) {
+    const settings = await this.getSettings();
+    return {
+      opportunityScore: this.scoreWith(settings, popularity, difficulty),
+      scoreVersion: settings.version,
+    };
+  }
+
+  /**
+   * Score with explicit settings, rounded to one decimal
+   */
+  scoreWith(settings, popularity, difficulty) {
+    const raw = SCORING_FORMULAS[settings.formula].score(popularity || 0, difficulty || 0, settings.weights);
+    return Math.round(Math.max(0, Math.min(raw, 100)) * 10) / 10;
+  }
+
+  /**
+   * Rescore every stored score not produced by the active version
+   * Covers the global keyword bank, job results and tracked keywords.
+   * @param {Object} options - { country } to limit the recompute to one storefront
+   * @returns {Promise<Object>} { version, updated, tables: { bank, results, tracked } }
+   */
+  async recompute({ country } = {}) {
+    const settings = await this.getSettings();
+    const tables = {};
+    for (const [name, model] of Object.entries(SCORED_MODELS)) {
+      tables[name] = await this.rescoreModel(model, settings, country);
+    }
+
+    const updated = Object.values(tables).reduce((sum, count) => sum + count, 0);
+    logger.info(`Rescored ${updated} keywords with ${settings.version} (bank ${tables.bank}, results ${tables.results}, tracked ${tables.tracked})`);
+    return { version: settings.version, updated, tables };
+  }
+
+  async rescoreModel(model, settings, country) {
+    const where = {
+      OR: [{ scoreVersion: null }, { scoreVersion: { not: settings.version } }],
+      popularity: { not: null },
+      difficulty: { not: null },
+      ...(country && { country }),
+    };
+
+    let lastId = null;
+    let updated = 0;
+
+    for (;;) {
+      const batch = await prisma[model].findMany({
+        where: lastId ? { ...where, id: { gt: lastId } } : where,
+        orderBy: { id: 'asc' },
+        take: RECOMPUTE_BATCH_SIZE,
+        select: { id: true, popularity: true, difficulty: true },
+      });
+      if (batch.length === 0) break;
+
+      await prisma.$transaction(batch.map((entry) =>
+        prisma[model].update({
+          where: { id: entry.id },
+          data: {
+            opportunityScore: this.scoreWith(settings, entry.popularity, entry.difficulty),
+            scoreVersion: settings.version,
+          },
+        })
+      ));
+
+      updated += batch.length;
+      lastId = batch[batch.length - 1].id;
+    }
+
+    return updated;
+  }
+}
+
+export const scoringService = new ScoringService();
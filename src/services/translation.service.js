@@ -14,7 +14,7 @@ export class TranslationService {
    */
   async translate(text, targetLang, sourceLang = null) {
     const cacheKey = `translate:${text}:${targetLang}:${sourceLang}`;
-    const cached = cache.get(cacheKey);
+    const cached = await cache.get(cacheKey);
     if (cached) return cached;
 
     if (!this.deeplApiKey) {
@@ -42,7 +42,7 @@ export class TranslationService {
         targetLang,
       };
 
-      cache.set(cacheKey, result, 86400); // 24 hour cache
+      cache.set(cacheKey, result);
       return result;
     } catch (error) {
       logger.error('DeepL translation error:', error.message);
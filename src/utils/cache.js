@@ -1,30 +1,430 @@
 import NodeCache from 'node-cache';
 import { config } from '../config/index.js';
+import { prisma } from '../db/prisma.js';
+import { logger } from './logger.js';
 
-export const cache = new NodeCache({
-  stdTTL: config.cacheTtl,
-  checkperiod: 120,
-  useClones: false,
+// Delete dead L2 rows after this many writes
+const PRUNE_EVERY = 500;
+// SQLite caps bound variables per statement
+const DELETE_BATCH_SIZE = 500;
+
+// Segment holding each field in service keys ("search:<term>:<country>:<limit>")
+const KEY_SEGMENTS = {
+  search: { keyword: 1, country: 2 },
+  suggestions: { keyword: 1, country: 2 },
+  keyword: { keyword: 1, country: 2 },
+  'prefix-depth': { keyword: 1, country: 2 },
+  app: { appId: 1, country: 2 },
+  developer: { country: 2 },
+  top: { country: 3 },
+  reviews: { appId: 1, country: 2 },
+  page: { appId: 1, country: 2 },
+};
+// Request fields holding each field in response cache keys ("<prefix>:<query and route params JSON>")
+const REQUEST_FIELDS = {
+  keyword: ['keyword', 'term'],
+  appId: ['appId'],
+  country: ['country'],
+};
+
+/**
+ * Pull the keyword, app ID and country a cache key was built from, where its namespace has them
+ */
+export const describeKey = (key) => {
+  const namespace = key.split(':')[0];
+  const fields = { namespace };
+
+  const segments = KEY_SEGMENTS[namespace];
+  if (segments) {
+    const parts = key.split(':');
+    for (const [field, index] of Object.entries(segments)) {
+      fields[field] = parts[index];
+    }
+    return fields;
+  }
+
+  const rest = key.slice(namespace.length + 1);
+  if (rest.startsWith('{')) {
+    try {
+      const request = JSON.parse(rest);
+      for (const [field, names] of Object.entries(REQUEST_FIELDS)) {
+        const name = names.find((candidate) => request[candidate] !== undefined);
+        if (name) fields[field] = String(request[name]);
+      }
+      // Routes default to the US storefront
+      fields.country = fields.country || 'us';
+    } catch {
+      // Not a response cache key
+    }
+  }
+  return fields;
+};
+
+/**
+ * Whether a key matches an invalidation/listing filter
+ * @param {Object} filter - { namespace, prefix, keyword, appId, country }; omitted fields match anything
+ */
+export const keyMatches = (key, filter = {}) => {
+  if (filter.prefix && !key.startsWith(filter.prefix)) return false;
+  if (!filter.namespace && !filter.keyword && !filter.appId && !filter.country) return true;
+
+  const fields = describeKey(key);
+  if (filter.namespace && fields.namespace !== filter.namespace) return false;
+  if (filter.keyword && fields.keyword?.toLowerCase() !== filter.keyword.toLowerCase()) return false;
+  if (filter.appId && fields.appId !== String(filter.appId)) return false;
+  if (filter.country && fields.country?.toLowerCase() !== filter.country.toLowerCase()) return false;
+  return true;
+};
+
+/**
+ * SQLite L2 store (CacheEntry table)
+ * Any object with the same get/set/keys/counts/delMany/prune methods - e.g. an adapter over a
+ * Redis-compatible client - can be passed to TwoTierCache instead.
+ */
+export class PrismaCacheStore {
+  async get(key) {
+    const row = await prisma.cacheEntry.findUnique({ where: { key } });
+    if (!row) return null;
+    return {
+      value: JSON.parse(row.value),
+      expiresAt: row.expiresAt.getTime(),
+      staleUntil: row.staleUntil.getTime(),
+    };
+  }
+
+  async set(key, namespace, entry) {
+    const data = {
+      namespace,
+      value: JSON.stringify(entry.value),
+      expiresAt: new Date(entry.expiresAt),
+      staleUntil: new Date(entry.staleUntil),
+    };
+    await prisma.cacheEntry.upsert({ where: { key }, create: { key, ...data }, update: data });
+  }
+
+  /**
+   * Live keys with their expiry times, optionally within one namespace or under a prefix
+   */
+  async keys({ namespace, prefix } = {}) {
+    const rows = await prisma.cacheEntry.findMany({
+      where: {
+        staleUntil: { gt: new Date() },
+        ...(namespace && { namespace }),
+        ...(prefix && { key: { startsWith: prefix } }),
+      },
+      select: { key: true, expiresAt: true, staleUntil: true },
+      orderBy: { key: 'asc' },
+    });
+    return rows.map((row) => ({
+      key: row.key,
+      expiresAt: row.expiresAt.getTime(),
+      staleUntil: row.staleUntil.getTime(),
+    }));
+  }
+
+  /**
+   * Live entry count per namespace
+   */
+  async counts() {
+    const groups = await prisma.cacheEntry.groupBy({
+      by: ['namespace'],
+      where: { staleUntil: { gt: new Date() } },
+      _count: { _all: true },
+    });
+    return Object.fromEntries(groups.map((group) => [group.namespace, group._count._all]));
+  }
+
+  async delMany(keys) {
+    let deleted = 0;
+    for (let i = 0; i < keys.length; i += DELETE_BATCH_SIZE) {
+      const result = await prisma.cacheEntry.deleteMany({
+        where: { key: { in: keys.slice(i, i + DELETE_BATCH_SIZE) } },
+      });
+      deleted += result.count;
+    }
+    return deleted;
+  }
+
+  async prune() {
+    const result = await prisma.cacheEntry.deleteMany({ where: { staleUntil: { lt: new Date() } } });
+    return result.count;
+  }
+}
+
+/**
+ * Two-tier cache
+ * L1 is an in-process NodeCache; L2 is a persistent store shared across restarts and instances.
+ * Keys are namespaced by their prefix ("search:...", "keyword:..."), which selects the TTL policy.
+ * Entries past their TTL but within the namespace's staleTtl are only served through wrap(),
+ * which returns them immediately and refreshes them in the background.
+ */
+export class TwoTierCache {
+  /**
+   * @param {Object} options - { defaultTtl, namespaces: { [prefix]: { ttl, staleTtl } }, store }
+   */
+  constructor({ defaultTtl, namespaces = {}, store = null }) {
+    this.defaultTtl = defaultTtl;
+    this.namespaces = namespaces;
+    this.store = store;
+    this.memory = new NodeCache({ checkperiod: 120, useClones: false });
+    this.refreshing = new Map();
+    this.writeCount = 0;
+    this.storeErrors = 0;
+    this.stats = new Map();
+  }
+
+  /**
+   * Count a lookup outcome ("hits", "staleHits" or "misses") against the key's namespace
+   */
+  record(key, outcome) {
+    const namespace = this.namespaceOf(key);
+    if (!this.stats.has(namespace)) {
+      this.stats.set(namespace, { hits: 0, staleHits: 0, misses: 0 });
+    }
+    this.stats.get(namespace)[outcome]++;
+  }
+
+  namespaceOf(key) {
+    return key.split(':')[0];
+  }
+
+  policy(key) {
+    const { ttl = this.defaultTtl, staleTtl = 0 } = this.namespaces[this.namespaceOf(key)] || {};
+    return { ttl, staleTtl };
+  }
+
+  /**
+   * Look up an entry in L1, then L2 (promoting L2 hits into L1)
+   */
+  async getEntry(key) {
+    const local = this.memory.get(key);
+    if (local) return local;
+    if (!this.store) return undefined;
+
+    try {
+      const entry = await this.store.get(key);
+      if (!entry || entry.staleUntil <= Date.now()) return undefined;
+
+      this.memory.set(key, entry, Math.ceil((entry.staleUntil - Date.now()) / 1000));
+      return entry;
+    } catch (error) {
+      this.storeErrors++;
+      logger.warn(`Cache store read failed for ${key}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Get a fresh value, or undefined
+   */
+  async get(key) {
+    const entry = await this.getEntry(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      this.record(key, 'hits');
+      return entry.value;
+    }
+    this.record(key, 'misses');
+    return undefined;
+  }
+
+  /**
+   * Store a value in both tiers
+   * @param {number} ttl - Seconds; defaults to the namespace's TTL
+   */
+  async set(key, value, ttl) {
+    const policy = this.policy(key);
+    const freshSeconds = ttl ?? policy.ttl;
+    const now = Date.now();
+    const entry = {
+      value,
+      expiresAt: now + freshSeconds * 1000,
+      staleUntil: now + (freshSeconds + policy.staleTtl) * 1000,
+    };
+
+    this.memory.set(key, entry, freshSeconds + policy.staleTtl);
+    if (!this.store) return;
+
+    try {
+      await this.store.set(key, this.namespaceOf(key), entry);
+      if (++this.writeCount % PRUNE_EVERY === 0) {
+        const pruned = await this.store.prune();
+        if (pruned > 0) logger.debug(`Pruned ${pruned} expired cache entries`);
+      }
+    } catch (error) {
+      this.storeErrors++;
+      logger.warn(`Cache store write failed for ${key}: ${error.message}`);
+    }
+  }
+
+  async del(key) {
+    this.memory.del(key);
+    if (this.store) await this.store.delMany([key]);
+  }
+
+  /**
+   * Delete every entry matching a filter from both tiers
+   * @param {Object} filter - { namespace, prefix, keyword, appId, country }, see keyMatches
+   * @returns {Promise<Object>} { memory, stored } - entries deleted from each tier
+   */
+  async invalidate(filter = {}) {
+    const memoryKeys = this.memory.keys().filter((key) => keyMatches(key, filter));
+    this.memory.del(memoryKeys);
+
+    let stored = 0;
+    if (this.store) {
+      const storedKeys = (await this.store.keys({ namespace: filter.namespace, prefix: filter.prefix }))
+        .map((entry) => entry.key)
+        .filter((key) => keyMatches(key, filter));
+      stored = await this.store.delMany(storedKeys);
+    }
+
+    logger.info(`Cache invalidated ${JSON.stringify(filter)}: ${memoryKeys.length} in memory, ${stored} stored`);
+    return { memory: memoryKeys.length, stored };
+  }
+
+  /**
+   * List live entries matching a filter, from the store when there is one (it holds everything L1 does)
+   * @returns {Promise<Object>} { total, entries: [{ key, namespace, keyword, appId, country, expiresAt, stale, inMemory }] }
+   */
+  async listKeys(filter = {}, limit = 100) {
+    const candidates = this.store
+      ? await this.store.keys({ namespace: filter.namespace, prefix: filter.prefix })
+      : this.memory.keys().map((key) => ({ key, ...this.memory.get(key) })).filter((entry) => entry.expiresAt);
+    const matches = candidates
+      .filter((entry) => keyMatches(entry.key, filter))
+      .sort((a, b) => a.key.localeCompare(b.key));
+
+    const now = Date.now();
+    return {
+      total: matches.length,
+      entries: matches.slice(0, limit).map((entry) => ({
+        ...describeKey(entry.key),
+        key: entry.key,
+        expiresAt: new Date(entry.expiresAt).toISOString(),
+        staleUntil: new Date(entry.staleUntil).toISOString(),
+        stale: entry.expiresAt <= now,
+        inMemory: this.memory.has(entry.key),
+      })),
+    };
+  }
+
+  /**
+   * Stale-while-revalidate read-through
+   * Fresh entries are returned as-is; stale ones are returned immediately while the loader refreshes
+   * them in the background; missing ones wait for the loader. Concurrent loads of a key share one call.
+   */
+  async wrap(key, loader, ttl) {
+    const entry = await this.getEntry(key);
+    const now = Date.now();
+
+    if (entry && entry.expiresAt > now) {
+      this.record(key, 'hits');
+      return entry.value;
+    }
+
+    if (entry) {
+      this.record(key, 'staleHits');
+      this.load(key, loader, ttl).catch((error) => {
+        logger.warn(`Background refresh of ${key} failed: ${error.message}`);
+      });
+      return entry.value;
+    }
+
+    this.record(key, 'misses');
+    return this.load(key, loader, ttl);
+  }
+
+  load(key, loader, ttl) {
+    let pending = this.refreshing.get(key);
+    if (!pending) {
+      pending = (async () => {
+        const value = await loader();
+        await this.set(key, value, ttl);
+        return value;
+      })().finally(() => {
+        this.refreshing.delete(key);
+      });
+      this.refreshing.set(key, pending);
+    }
+    return pending;
+  }
+
+  /**
+   * Entry counts, lookup outcomes and memory use, overall and per namespace
+   */
+  async getStats() {
+    const memoryCounts = {};
+    for (const key of this.memory.keys()) {
+      const namespace = this.namespaceOf(key);
+      memoryCounts[namespace] = (memoryCounts[namespace] || 0) + 1;
+    }
+    const storedCounts = this.store ? await this.store.counts() : {};
+
+    const names = new Set([...Object.keys(memoryCounts), ...Object.keys(storedCounts), ...this.stats.keys()]);
+    const namespaces = [...names].sort().map((namespace) => {
+      const { hits = 0, staleHits = 0, misses = 0 } = this.stats.get(namespace) || {};
+      const lookups = hits + staleHits + misses;
+      return {
+        namespace,
+        memoryEntries: memoryCounts[namespace] || 0,
+        storedEntries: storedCounts[namespace] || 0,
+        ttl: this.policy(`${namespace}:`).ttl,
+        staleTtl: this.policy(`${namespace}:`).staleTtl,
+        hits,
+        staleHits,
+        misses,
+        hitRate: lookups > 0 ? Math.round(((hits + staleHits) / lookups) * 1000) / 10 : null,
+      };
+    });
+
+    const totals = namespaces.reduce((sum, ns) => ({
+      memoryEntries: sum.memoryEntries + ns.memoryEntries,
+      storedEntries: sum.storedEntries + ns.storedEntries,
+      hits: sum.hits + ns.hits,
+      staleHits: sum.staleHits + ns.staleHits,
+      misses: sum.misses + ns.misses,
+    }), { memoryEntries: 0, storedEntries: 0, hits: 0, staleHits: 0, misses: 0 });
+
+    const { ksize, vsize } = this.memory.getStats();
+    return {
+      store: this.store ? this.store.constructor.name : null,
+      refreshing: this.refreshing.size,
+      storeErrors: this.storeErrors,
+      totals,
+      memory: {
+        // NodeCache's own size estimate of the L1 keys and values
+        cacheBytes: ksize + vsize,
+        heapUsedBytes: process.memoryUsage().heapUsed,
+      },
+      namespaces,
+    };
+  }
+}
+
+export const cache = new TwoTierCache({
+  defaultTtl: config.cache.defaultTtl,
+  namespaces: config.cache.namespaces,
+  store: config.cache.store === 'sqlite' ? new PrismaCacheStore() : null,
 });
 
-export const cacheMiddleware = (keyPrefix, ttl = config.cacheTtl) => {
-  return (req, res, next) => {
-    const key = `${keyPrefix}:${JSON.stringify(req.query)}:${JSON.stringify(req.params)}`;
-    const cached = cache.get(key);
-    
+export const cacheMiddleware = (keyPrefix, ttl = config.cache.defaultTtl) => {
+  return async (req, res, next) => {
+    const key = `${keyPrefix}:${JSON.stringify({ ...req.query, ...req.params })}`;
+    const cached = await cache.get(key);
+
     if (cached) {
       return res.json(cached);
     }
-    
+
     // Store original json method
     const originalJson = res.json.bind(res);
-    
+
     // Override json method to cache response
     res.json = (data) => {
       cache.set(key, data, ttl);
       return originalJson(data);
     };
-    
+
     next();
   };
 };
@@ -0,0 +1,70 @@
+import ExcelJS from 'exceljs';
+
+/**
+ * Streaming table exporters
+ * Each writer takes column definitions ({ key, header, width? }) and an async iterable of rows,
+ * and writes to an Express response without buffering the whole table in memory.
+ */
+
+export const EXPORT_CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const toCell = (value) => {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  if (Array.isArray(value)) return value.join('; ');
+  return value;
+};
+
+const escapeCsv = (value) => {
+  const text = String(toCell(value));
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Set download headers for an export
+ */
+export const setExportHeaders = (res, format, filename) => {
+  res.set({
+    'Content-Type': EXPORT_CONTENT_TYPES[format],
+    'Content-Disposition': `attachment; filename="${filename}.${format}"`,
+  });
+};
+
+export const writeCsv = async (res, columns, rows) => {
+  res.write(columns.map((c) => escapeCsv(c.header)).join(',') + '\r\n');
+  for await (const row of rows) {
+    res.write(columns.map((c) => escapeCsv(row[c.key])).join(',') + '\r\n');
+  }
+  res.end();
+};
+
+export const writeNdjson = async (res, columns, rows) => {
+  for await (const row of rows) {
+    const record = Object.fromEntries(columns.map((c) => [c.key, row[c.key] ?? null]));
+    res.write(JSON.stringify(record) + '\n');
+  }
+  res.end();
+};
+
+export const writeXlsx = async (res, columns, rows, sheetName = 'Results') => {
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({ stream: res });
+  const sheet = workbook.addWorksheet(sheetName);
+  sheet.columns = columns.map((c) => ({ header: c.header, key: c.key, width: c.width || 15 }));
+
+  for await (const row of rows) {
+    sheet.addRow(Object.fromEntries(columns.map((c) => [c.key, toCell(row[c.key])]))).commit();
+  }
+
+  sheet.commit();
+  await workbook.commit();
+};
+
+export const exportWriters = {
+  csv: writeCsv,
+  ndjson: writeNdjson,
+  xlsx: writeXlsx,
+};
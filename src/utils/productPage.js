@@ -0,0 +1,224 @@
+import * as cheerio from 'cheerio';
+
+// Script tags that carry the page's embedded data
+const EMBEDDED_DATA_SELECTOR = 'script[type="application/json"], script[type="fastboot/shoebox"], script#serialized-server-data';
+// Headings of the product page sections we read, matched on text since class names change between redesigns
+const SECTION_HEADINGS = {
+  inAppEvents: /^(in-app )?events?$/i,
+  moreByDeveloper: /^more by /i,
+  youMightAlsoLike: /^you might also like$/i,
+};
+const MAGNITUDES = { K: 1e3, M: 1e6, B: 1e9 };
+const APP_STORE_WEB_URL = 'https://apps.apple.com';
+
+const clean = (text) => (text || '').replace(/\s+/g, ' ').trim() || null;
+
+/**
+ * Parse "4.7", "1.2M Ratings", "12,345 Ratings" into numbers
+ */
+export const parseCount = (text) => {
+  const match = (text || '').replace(/,/g, '').match(/([\d.]+)\s*([KMB])?/i);
+  if (!match) return null;
+  return Math.round(parseFloat(match[1]) * (MAGNITUDES[match[2]?.toUpperCase()] || 1));
+};
+
+const appIdFromUrl = (url) => (url || '').match(/\/id(\d+)/)?.[1] || null;
+
+/**
+ * Text of the first selector that matches inside an element, trying selectors in order
+ */
+const firstText = (element, selectors) => {
+  for (const selector of selectors) {
+    const text = clean(element.find(selector).first().text());
+    if (text) return text;
+  }
+  return null;
+};
+
+/**
+ * Parse every embedded JSON blob on the page
+ * Shoebox caches hold JSON-encoded strings as values, which are decoded as well.
+ */
+const embeddedData = ($) => {
+  const blobs = [];
+  $(EMBEDDED_DATA_SELECTOR).each((_, element) => {
+    try {
+      const data = JSON.parse($(element).text());
+      blobs.push(data);
+      if (data && typeof data === 'object') {
+        for (const value of Object.values(data)) {
+          if (typeof value === 'string' && value.startsWith('{')) {
+            try {
+              blobs.push(JSON.parse(value));
+            } catch {
+              // Plain string value
+            }
+          }
+        }
+      }
+    } catch {
+      // Not JSON
+    }
+  });
+  return blobs;
+};
+
+/**
+ * Depth-first search for the first value stored under one of `keys` that passes `accept`
+ * The embedded data's layout differs between page versions, so fields are found by name.
+ */
+const findValue = (data, keys, accept = (value) => value !== null && value !== undefined) => {
+  const stack = [data];
+  while (stack.length > 0) {
+    const node = stack.pop();
+    if (!node || typeof node !== 'object') continue;
+
+    for (const key of keys) {
+      if (Object.prototype.hasOwnProperty.call(node, key) && accept(node[key])) return node[key];
+    }
+    stack.push(...Object.values(node).reverse());
+  }
+  return undefined;
+};
+
+const findInBlobs = (blobs, keys, accept) => {
+  for (const blob of blobs) {
+    const value = findValue(blob, keys, accept);
+    if (value !== undefined) return value;
+  }
+  return undefined;
+};
+
+const isText = (value) => typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * The section element whose heading matches a pattern
+ */
+const findSection = ($, pattern) => {
+  const heading = $('h2, h3').filter((_, element) => pattern.test(clean($(element).text()) || '')).first();
+  if (heading.length === 0) return null;
+  return heading.closest('section').length > 0 ? heading.closest('section') : heading.parent();
+};
+
+/**
+ * App links in a shelf section, e.g. "More By This Developer"
+ */
+const parseAppShelf = ($, pattern) => {
+  const section = findSection($, pattern);
+  if (!section) return [];
+
+  const apps = new Map();
+  section.find('a[href*="/app/"]').each((_, element) => {
+    const link = $(element);
+    const url = link.attr('href');
+    const id = appIdFromUrl(url);
+    if (!id || apps.has(id)) return;
+
+    apps.set(id, {
+      id,
+      name: firstText(link, ['.we-lockup__title', 'h3', '[class*="title"]']) || clean(link.attr('aria-label')) || clean(link.text()),
+      subtitle: firstText(link, ['.we-lockup__subtitle', '[class*="subtitle"]']),
+      url: new URL(url, APP_STORE_WEB_URL).href,
+    });
+  });
+  return [...apps.values()];
+};
+
+const parseInAppEvents = ($, blobs) => {
+  // Either a plain list or a relationship object ({ data: [...] })
+  const events = findInBlobs(blobs, ['appEvents', 'app-events'], (value) => Array.isArray(value) || Array.isArray(value?.data));
+  if (events) {
+    return (Array.isArray(events) ? events : events.data).map((event) => {
+      const attributes = event.attributes || event;
+      return {
+        title: clean(attributes.name || attributes.title),
+        badge: clean(attributes.badgeKind || attributes.badge),
+        description: clean(attributes.shortDescription || attributes.subtitle || attributes.description),
+        startsAt: attributes.startDate || null,
+        endsAt: attributes.endDate || null,
+      };
+    });
+  }
+
+  const section = findSection($, SECTION_HEADINGS.inAppEvents);
+  if (!section) return [];
+
+  const cards = section.find('.app-event').length > 0 ? section.find('.app-event') : section.find('li, article');
+  return cards.toArray()
+    .map((element) => {
+      const event = $(element);
+      const time = event.find('time');
+      return {
+        title: firstText(event, ['.app-event__title', 'h3', 'h4']),
+        badge: firstText(event, ['.app-event__badge', '[class*="badge"]']),
+        description: firstText(event, ['.app-event__description', 'p:not([class*="badge"])']),
+        startsAt: time.first().attr('datetime') || null,
+        endsAt: time.length > 1 ? time.eq(1).attr('datetime') || null : null,
+      };
+    })
+    .filter((event) => event.title);
+};
+
+/**
+ * Ratings summary and star histogram
+ * Embedded data has per-star counts (ratingCountList, 1 star first); the markup only has bar widths.
+ */
+const parseRatings = ($, blobs) => {
+  const userRating = findInBlobs(blobs, ['userRating'], (value) => value && typeof value === 'object');
+  let average = typeof userRating?.value === 'number' ? userRating.value : null;
+  let count = typeof userRating?.ratingCount === 'number' ? userRating.ratingCount : null;
+  let histogram = [];
+
+  if (Array.isArray(userRating?.ratingCountList) && userRating.ratingCountList.length === 5) {
+    const total = userRating.ratingCountList.reduce((sum, value) => sum + value, 0);
+    histogram = userRating.ratingCountList
+      .map((ratings, index) => ({
+        stars: index + 1,
+        count: ratings,
+        percent: total > 0 ? Math.round((ratings / total) * 1000) / 10 : 0,
+      }))
+      .reverse();
+  } else {
+    $('.we-star-bar-graph__row').each((index, element) => {
+      const width = $(element).find('.we-star-bar-graph__bar__foreground-bar').attr('style') || '';
+      const percent = parseFloat(width.match(/width:\s*([\d.]+)%/)?.[1]);
+      histogram.push({ stars: 5 - index, count: null, percent: Number.isNaN(percent) ? 0 : percent });
+    });
+  }
+
+  if (average === null) {
+    average = parseFloat($('.we-customer-ratings__averages__display').first().text()) || null;
+  }
+  if (count === null) {
+    count = parseCount($('.we-customer-ratings__count').first().text());
+  }
+
+  return { average, count, histogram };
+};
+
+/**
+ * Parse an apps.apple.com product page
+ * Reads the page's embedded JSON data first and falls back to the rendered markup.
+ * @param {string} html
+ * @returns {Object} { name, subtitle, promotionalText, inAppEvents, ratings, moreByDeveloper, youMightAlsoLike }
+ */
+export const parseProductPage = (html) => {
+  const $ = cheerio.load(html);
+  const blobs = embeddedData($);
+
+  // The title heading also holds the age-rating badge
+  const title = $('h1.product-header__title').first().clone();
+  title.find('span').remove();
+
+  return {
+    name: clean(title.text()) || clean($('meta[property="og:title"]').attr('content')),
+    subtitle: clean(findInBlobs(blobs, ['subtitle'], isText) || $('.product-header__subtitle').first().text()),
+    promotionalText: clean(
+      findInBlobs(blobs, ['promotionalText'], isText) || $('.product-header__promotional-text, .section__promotional-text').first().text()
+    ),
+    inAppEvents: parseInAppEvents($, blobs),
+    ratings: parseRatings($, blobs),
+    moreByDeveloper: parseAppShelf($, SECTION_HEADINGS.moreByDeveloper),
+    youMightAlsoLike: parseAppShelf($, SECTION_HEADINGS.youMightAlsoLike),
+  };
+};
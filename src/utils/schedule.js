@@ -0,0 +1,139 @@
+import cronParser from 'cron-parser';
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Safety cap when searching for a cron tick that falls inside the active window (one step per window)
+const MAX_CRON_ITERATIONS = 1000;
+
+/**
+ * Check whether a string is a valid IANA timezone (e.g. "Europe/Berlin")
+ */
+export const isValidTimezone = (timezone) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check whether a string is a valid 5-field cron expression
+ */
+export const isValidCronExpression = (expression) => {
+  if (typeof expression !== 'string' || expression.trim().split(/\s+/).length !== 5) {
+    return false;
+  }
+  try {
+    cronParser.parseExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Check whether a string is a "HH:mm" time of day
+ */
+export const isValidTimeOfDay = (value) => TIME_OF_DAY_PATTERN.test(value || '');
+
+/**
+ * Minutes since midnight of `date` in the given timezone
+ */
+const minutesOfDayInTimezone = (date, timezone) => {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const hour = parseInt(parts.find((p) => p.type === 'hour').value);
+  const minute = parseInt(parts.find((p) => p.type === 'minute').value);
+  return hour * 60 + minute;
+};
+
+const toMinutes = (timeOfDay) => {
+  const [, hour, minute] = timeOfDay.match(TIME_OF_DAY_PATTERN);
+  return parseInt(hour) * 60 + parseInt(minute);
+};
+
+/**
+ * Whether `date` falls inside the job's active window
+ * Windows may wrap midnight (e.g. 22:00-06:00); jobs without a window are always active
+ */
+export const isWithinActiveWindow = (date, schedule) => {
+  const { windowStart, windowEnd, timezone = 'UTC' } = schedule;
+  if (!windowStart || !windowEnd) return true;
+
+  const now = minutesOfDayInTimezone(date, timezone);
+  const start = toMinutes(windowStart);
+  const end = toMinutes(windowEnd);
+
+  if (start === end) return true;
+  if (start < end) return now >= start && now < end;
+  return now >= start || now < end;
+};
+
+/**
+ * Move `date` forward to the start of the next active window if it is outside one
+ */
+export const alignToActiveWindow = (date, schedule) => {
+  if (isWithinActiveWindow(date, schedule)) return date;
+
+  const [hour, minute] = schedule.windowStart.split(':').map((v) => parseInt(v));
+  const nextStart = cronParser.parseExpression(`${minute} ${hour} * * *`, {
+    currentDate: date,
+    tz: schedule.timezone || 'UTC',
+  });
+  return nextStart.next().toDate();
+};
+
+/**
+ * Compute when the next cycle should run after `from`
+ * @param {Object} schedule - { scheduleType, intervalMinutes, cronExpression, timezone, windowStart, windowEnd }
+ * @param {Date} from - Reference time (usually the end of the previous cycle)
+ * @param {boolean} immediate - Run as soon as allowed instead of waiting one interval (first cycle of an interval job)
+ */
+export const computeNextRunAt = (schedule, from = new Date(), immediate = false) => {
+  const { scheduleType = 'interval', intervalMinutes = 15, cronExpression, timezone = 'UTC' } = schedule;
+
+  if (scheduleType === 'cron') {
+    let cursor = from;
+    for (let i = 0; i < MAX_CRON_ITERATIONS; i++) {
+      const candidate = cronParser.parseExpression(cronExpression, { currentDate: cursor, tz: timezone }).next().toDate();
+      if (isWithinActiveWindow(candidate, schedule)) return candidate;
+      // Skip the ticks outside the window: continue from just before the next window opens
+      cursor = new Date(alignToActiveWindow(candidate, schedule).getTime() - 1000);
+    }
+    throw new Error('Cron expression never fires inside the active window');
+  }
+
+  const base = immediate ? from : new Date(from.getTime() + intervalMinutes * 60 * 1000);
+  return alignToActiveWindow(base, schedule);
+};
+
+/**
+ * Check whether a schedule runs at all (a cron expression may never fire inside the active window)
+ */
+export const hasNextRun = (schedule) => {
+  try {
+    computeNextRunAt(schedule);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Preview the next `count` run times of a schedule
+ * Interval jobs assume each cycle finishes instantly, so real runs drift later by the cycle duration
+ */
+export const previewRunTimes = (schedule, count = 5, from = new Date()) => {
+  const runs = [];
+  let cursor = from;
+  for (let i = 0; i < count; i++) {
+    cursor = computeNextRunAt(schedule, cursor, i === 0);
+    runs.push(cursor);
+  }
+  return runs;
+};
@@ -0,0 +1,158 @@
+import { logger } from './logger.js';
+
+// Upstream statuses worth retrying: Apple answers throttling with 403 as well as 429
+const RETRYABLE_STATUSES = new Set([403, 429]);
+const MAX_RETRY_DELAY_MS = 30000;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Shared client for upstream HTTP APIs
+ * Wraps an axios instance with, per host:
+ * - a concurrency limit and a token bucket (requests/second with a burst allowance)
+ * - exponential backoff with jitter on 403/429/5xx and network errors (honoring Retry-After)
+ * - single-flight coalescing: identical GETs in flight share one request
+ * Every caller of the same client shares the same budget.
+ */
+export class UpstreamClient {
+  /**
+   * @param {Object} http - axios instance
+   * @param {Object} options - { concurrency, ratePerSecond, burst, maxRetries, retryBaseMs }
+   */
+  constructor(http, options) {
+    this.http = http;
+    this.options = options;
+    this.hosts = new Map();
+    this.inFlight = new Map();
+    this.coalesced = 0;
+  }
+
+  /**
+   * GET a URL, sharing the response with identical requests already in flight
+   */
+  get(url, config = {}) {
+    const key = `${url}?${JSON.stringify(Object.entries(config.params || {}).sort())}`;
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.coalesced++;
+      return pending;
+    }
+
+    const request = this.request({ ...config, method: 'get', url }).finally(() => {
+      this.inFlight.delete(key);
+    });
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Make a request within the host's limits, retrying transient failures
+   */
+  async request(config) {
+    const host = new URL(config.url).host;
+
+    for (let attempt = 0; ; attempt++) {
+      await this.acquire(host);
+      let error;
+      try {
+        return await this.http.request(config);
+      } catch (requestError) {
+        error = requestError;
+      } finally {
+        // Free the slot before backing off so waiting retries don't block other requests
+        this.release(host);
+      }
+
+      if (attempt >= this.options.maxRetries || !this.isRetryable(error)) throw error;
+
+      const delay = this.retryDelay(error, attempt);
+      logger.warn(`Upstream ${host} failed (${error.response?.status || error.code}), retry ${attempt + 1} in ${delay}ms`);
+      await sleep(delay);
+    }
+  }
+
+  isRetryable(error) {
+    const status = error.response?.status;
+    if (!status) return true; // Network error or timeout
+    return RETRYABLE_STATUSES.has(status) || status >= 500;
+  }
+
+  /**
+   * Exponential backoff with full jitter, or the server's Retry-After when it sends one
+   */
+  retryDelay(error, attempt) {
+    const retryAfter = parseInt(error.response?.headers?.['retry-after']);
+    if (retryAfter > 0) return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+
+    const ceiling = Math.min(this.options.retryBaseMs * 2 ** attempt, MAX_RETRY_DELAY_MS);
+    return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+  }
+
+  hostState(host) {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, queue: [], tokens: this.options.burst, refilledAt: Date.now(), timer: null };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  /**
+   * Wait for a concurrency slot and a rate token on a host
+   */
+  acquire(host) {
+    return new Promise((resolve) => {
+      this.hostState(host).queue.push(resolve);
+      this.drain(host);
+    });
+  }
+
+  release(host) {
+    this.hostState(host).active--;
+    this.drain(host);
+  }
+
+  /**
+   * Start as many queued requests as the host's slots and tokens allow
+   */
+  drain(host) {
+    const state = this.hostState(host);
+    const { concurrency, ratePerSecond, burst } = this.options;
+
+    while (state.queue.length > 0 && state.active < concurrency) {
+      const now = Date.now();
+      state.tokens = Math.min(burst, state.tokens + ((now - state.refilledAt) / 1000) * ratePerSecond);
+      state.refilledAt = now;
+
+      if (state.tokens < 1) {
+        if (!state.timer) {
+          const waitMs = Math.ceil(((1 - state.tokens) / ratePerSecond) * 1000);
+          state.timer = setTimeout(() => {
+            state.timer = null;
+            this.drain(host);
+          }, waitMs);
+        }
+        return;
+      }
+
+      state.tokens -= 1;
+      state.active++;
+      state.queue.shift()();
+    }
+  }
+
+  /**
+   * Current load per host, for monitoring
+   */
+  getStats() {
+    return {
+      inFlight: this.inFlight.size,
+      coalesced: this.coalesced,
+      hosts: Object.fromEntries([...this.hosts].map(([host, state]) => [host, {
+        active: state.active,
+        queued: state.queue.length,
+        tokens: Math.floor(state.tokens),
+      }])),
+    };
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Test script for the App Store product page parser
+ *
+ * Parses saved apps.apple.com pages from fixtures/product-pages and checks:
+ * 1. Subtitle, promotional text and name are read from the rendered markup
+ * 2. In-app events, the ratings histogram and related app shelves are read from the markup
+ * 3. The same fields are read from the page's embedded JSON data when it is present
+ * 4. Pages without these sections parse to empty values instead of failing
+ *
+ * No network access is needed.
+ *
+ * Usage: node test-product-page.js
+ */
+
+import fs from 'fs';
+import assert from 'assert/strict';
+import { parseCount, parseProductPage } from './src/utils/productPage.js';
+
+const FIXTURES_DIR = new URL('./fixtures/product-pages/', import.meta.url);
+
+const loadFixture = (name) => fs.readFileSync(new URL(name, FIXTURES_DIR), 'utf8');
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const markup = parseProductPage(loadFixture('markup.html'));
+const embedded = parseProductPage(loadFixture('embedded-data.html'));
+
+test('parses rating counts with thousands separators and magnitudes', () => {
+  assert.equal(parseCount('12,345 Ratings'), 12345);
+  assert.equal(parseCount('12.3K Ratings'), 12300);
+  assert.equal(parseCount('1.2M Ratings'), 1200000);
+  assert.equal(parseCount('No Ratings'), null);
+});
+
+test('reads name, subtitle and promotional text from markup', () => {
+  assert.equal(markup.name, 'Stride: Step Counter & Walks');
+  assert.equal(markup.subtitle, 'Pedometer & walking tracker');
+  assert.equal(markup.promotionalText, 'New: monthly walking challenges with friends.');
+});
+
+test('reads in-app events from markup without picking up badges as descriptions', () => {
+  assert.equal(markup.inAppEvents.length, 2);
+  assert.deepEqual(markup.inAppEvents[0], {
+    title: 'Spring Step Challenge',
+    badge: 'Happening Now',
+    description: 'Walk 10,000 steps a day for a week.',
+    startsAt: '2024-04-01T00:00:00.000Z',
+    endsAt: '2024-04-08T00:00:00.000Z',
+  });
+  assert.equal(markup.inAppEvents[1].title, 'Weekend Hike Week');
+  assert.equal(markup.inAppEvents[1].startsAt, null);
+});
+
+test('reads the ratings summary and histogram bar widths from markup', () => {
+  assert.equal(markup.ratings.average, 4.7);
+  assert.equal(markup.ratings.count, 12300);
+  assert.deepEqual(
+    markup.ratings.histogram.map(({ stars, percent }) => [stars, percent]),
+    [[5, 81], [4, 11], [3, 4], [2, 1], [1, 3]]
+  );
+  assert.ok(markup.ratings.histogram.every((row) => row.count === null));
+});
+
+test('reads "More by this developer" and "You might also like", deduplicated by app ID', () => {
+  assert.deepEqual(markup.moreByDeveloper.map((app) => app.id), ['1400000001', '1400000002']);
+  assert.equal(markup.moreByDeveloper[0].name, 'Stride Sleep Tracker');
+  assert.equal(markup.moreByDeveloper[0].url, 'https://apps.apple.com/us/app/stride-sleep-tracker/id1400000001');
+  assert.deepEqual(markup.youMightAlsoLike.map((app) => app.id), ['600446812', '1091948981']);
+});
+
+test('prefers the embedded data for subtitle, promotional text and events', () => {
+  assert.equal(embedded.subtitle, 'Pedometer & walking tracker');
+  assert.equal(embedded.promotionalText, 'New: monthly walking challenges with friends.');
+  assert.deepEqual(embedded.inAppEvents, [{
+    title: 'Spring Step Challenge',
+    badge: 'CHALLENGE',
+    description: 'Walk 10,000 steps a day for a week.',
+    startsAt: '2024-04-01T00:00:00Z',
+    endsAt: '2024-04-08T00:00:00Z',
+  }]);
+});
+
+test('builds the histogram from embedded per-star counts', () => {
+  assert.equal(embedded.ratings.average, 4.6);
+  assert.equal(embedded.ratings.count, 12345);
+  assert.deepEqual(embedded.ratings.histogram[0], { stars: 5, count: 10000, percent: 81 });
+  assert.deepEqual(embedded.ratings.histogram[4], { stars: 1, count: 370, percent: 3 });
+});
+
+test('returns empty values for a page without product sections', () => {
+  const page = parseProductPage('<html><head><title>Not Found</title></head><body></body></html>');
+  assert.equal(page.subtitle, null);
+  assert.equal(page.promotionalText, null);
+  assert.deepEqual(page.inAppEvents, []);
+  assert.deepEqual(page.ratings, { average: null, count: null, histogram: [] });
+  assert.deepEqual(page.moreByDeveloper, []);
+  assert.deepEqual(page.youMightAlsoLike, []);
+});
+
+async function main() {
+  console.log('\n🧪 Testing product page parser against saved pages...\n');
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}`);
+      console.log(`   ${error.message}`);
+    }
+  }
+
+  console.log(`\n${tests.length - failed}/${tests.length} passed`);
+  process.exitCode = failed > 0 ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,89 @@
+/**
+ * Test script for job schedules
+ *
+ * Computes run times for interval and cron schedules with active windows and checks:
+ * 1. Cron schedules find their next tick inside the window from any time of day
+ * 2. Windows that wrap midnight and non-UTC timezones are honored
+ * 3. Cron expressions that never fire inside the window are reported
+ *
+ * No network access or database is needed.
+ *
+ * Usage: node test-schedule.js
+ */
+
+import assert from 'assert/strict';
+import { computeNextRunAt, hasNextRun, previewRunTimes } from './src/utils/schedule.js';
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const everyMinuteAt2am = {
+  scheduleType: 'cron',
+  cronExpression: '*/1 * * * *',
+  timezone: 'UTC',
+  windowStart: '02:00',
+  windowEnd: '03:00',
+};
+
+const nextRun = (schedule, from, immediate) => computeNextRunAt(schedule, new Date(from), immediate).toISOString();
+
+test('runs a frequent cron schedule at the next window opening after the window closed', () => {
+  assert.equal(nextRun(everyMinuteAt2am, '2026-10-19T03:05:00Z'), '2026-10-20T02:00:00.000Z');
+  assert.equal(hasNextRun(everyMinuteAt2am), true);
+});
+
+test('runs a frequent cron schedule at the window opening before the window', () => {
+  assert.equal(nextRun(everyMinuteAt2am, '2026-10-19T01:05:00Z'), '2026-10-19T02:00:00.000Z');
+});
+
+test('runs a cron schedule at its next tick inside an open window', () => {
+  assert.equal(nextRun(everyMinuteAt2am, '2026-10-19T02:30:10Z'), '2026-10-19T02:31:00.000Z');
+  assert.equal(nextRun(everyMinuteAt2am, '2026-10-19T02:59:00Z'), '2026-10-20T02:00:00.000Z');
+});
+
+test('finds rare cron ticks inside the window', () => {
+  const leapDay = { ...everyMinuteAt2am, cronExpression: '0 10 29 2 *', windowStart: '09:00', windowEnd: '17:00' };
+  assert.equal(nextRun(leapDay, '2026-10-19T03:05:00Z'), '2028-02-29T10:00:00.000Z');
+});
+
+test('honors windows that wrap midnight in the job timezone', () => {
+  const overnight = { ...everyMinuteAt2am, timezone: 'Europe/Berlin', windowStart: '22:00', windowEnd: '06:00' };
+  assert.equal(nextRun(overnight, '2026-10-19T12:00:00Z'), '2026-10-19T20:00:00.000Z');
+});
+
+test('reports cron expressions that never fire inside the window', () => {
+  const outside = { ...everyMinuteAt2am, cronExpression: '0 3 * * *', windowStart: '09:00', windowEnd: '17:00' };
+  assert.equal(hasNextRun(outside), false);
+  assert.throws(() => computeNextRunAt(outside), /never fires inside the active window/);
+});
+
+test('moves interval runs that fall outside the window to the next opening', () => {
+  const interval = { scheduleType: 'interval', intervalMinutes: 30, timezone: 'UTC', windowStart: '02:00', windowEnd: '03:00' };
+  assert.equal(nextRun(interval, '2026-10-19T02:45:00Z'), '2026-10-20T02:00:00.000Z');
+  assert.equal(nextRun(interval, '2026-10-19T02:45:00Z', true), '2026-10-19T02:45:00.000Z');
+});
+
+test('previews consecutive cron runs across window closings', () => {
+  const runs = previewRunTimes(everyMinuteAt2am, 3, new Date('2026-10-19T02:58:30Z')).map((date) => date.toISOString());
+  assert.deepEqual(runs, ['2026-10-19T02:59:00.000Z', '2026-10-20T02:00:00.000Z', '2026-10-20T02:01:00.000Z']);
+});
+
+async function main() {
+  console.log('\n🧪 Testing job schedules...\n');
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}`);
+      console.log(`   ${error.message}`);
+    }
+  }
+
+  console.log(`\n${tests.length - failed}/${tests.length} passed`);
+  process.exitCode = failed > 0 ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,215 @@
+/**
+ * Test script for the Apple Search Ads client
+ *
+ * Starts a local mock of Apple's OAuth token endpoint and the Search Ads keyword endpoints,
+ * points an AppleSearchAdsService at it and checks:
+ * 1. The client secret is an ES256 JWT with the expected claims, signed with the configured key
+ * 2. Access tokens are cached and shared by concurrent requests
+ * 3. A rejected (401) token is refreshed once and the request retried
+ * 4. Popularity and recommendation responses are mapped correctly
+ * 5. Unconfigured clients refuse to call Apple
+ *
+ * No real credentials or network access are needed.
+ *
+ * Usage: node test-search-ads.js
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import assert from 'assert/strict';
+import { AppleSearchAdsService } from './src/services/appleSearchAds.service.js';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+
+const CREDENTIALS = {
+  teamId: 'TEAM123',
+  keyId: 'KEY456',
+  clientId: 'SEARCHADS.client-789',
+  privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+  orgId: '4242',
+  adamId: '1234567890',
+};
+
+const POPULARITY = { 'fitness tracker': 62, 'step counter': 41 };
+
+// Mock server state, inspected by the tests
+const mock = {
+  tokenRequests: 0,
+  issuedTokens: new Set(),
+  rejectNextApiCall: false,
+  lastClientSecret: null,
+  lastApiRequest: null,
+};
+
+const readBody = (req) => new Promise((resolve) => {
+  let body = '';
+  req.on('data', (chunk) => { body += chunk; });
+  req.on('end', () => resolve(body));
+});
+
+const sendJson = (res, status, data) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(data));
+};
+
+const verifyClientSecret = (jwt) => {
+  const [header, payload, signature] = jwt.split('.');
+  return crypto.verify(
+    'sha256',
+    Buffer.from(`${header}.${payload}`),
+    { key: publicKey, dsaEncoding: 'ieee-p1363' },
+    Buffer.from(signature, 'base64url')
+  );
+};
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+  const body = await readBody(req);
+
+  if (req.method === 'POST' && url.pathname === '/auth/oauth2/token') {
+    const form = new URLSearchParams(body);
+    mock.tokenRequests++;
+    mock.lastClientSecret = form.get('client_secret');
+
+    if (form.get('grant_type') !== 'client_credentials' || form.get('scope') !== 'searchadsorg' ||
+        form.get('client_id') !== CREDENTIALS.clientId || !verifyClientSecret(mock.lastClientSecret)) {
+      return sendJson(res, 400, { error: 'invalid_client' });
+    }
+
+    const token = `token-${mock.tokenRequests}`;
+    mock.issuedTokens.add(token);
+    return sendJson(res, 200, { access_token: token, token_type: 'Bearer', expires_in: 3600 });
+  }
+
+  const token = (req.headers.authorization || '').replace('Bearer ', '');
+  if (!mock.issuedTokens.has(token) || mock.rejectNextApiCall) {
+    mock.rejectNextApiCall = false;
+    return sendJson(res, 401, { error: { errors: [{ message: 'Invalid token' }] } });
+  }
+
+  mock.lastApiRequest = { method: req.method, path: url.pathname, query: url.searchParams, headers: req.headers, body };
+
+  if (req.method === 'POST' && url.pathname === '/api/v5/keywords/popularities') {
+    const { terms } = JSON.parse(body);
+    return sendJson(res, 200, {
+      data: terms.map((term) => ({ name: term, popularity: POPULARITY[term.toLowerCase()] ?? null })),
+    });
+  }
+
+  if (req.method === 'GET' && url.pathname === '/api/v5/keywords/recommendation') {
+    return sendJson(res, 200, {
+      data: [
+        { name: 'fitness tracker app', popularity: 35 },
+        { name: 'fitness watch' },
+      ],
+    });
+  }
+
+  return sendJson(res, 404, { error: { errors: [{ message: 'Not found' }] } });
+});
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+let client;
+
+test('signs an ES256 client secret with the expected claims', async () => {
+  await client.getPopularity(['fitness tracker']);
+
+  const [header, payload] = mock.lastClientSecret.split('.').slice(0, 2)
+    .map((part) => JSON.parse(Buffer.from(part, 'base64url').toString()));
+  assert.deepEqual(header, { alg: 'ES256', kid: CREDENTIALS.keyId });
+  assert.equal(payload.iss, CREDENTIALS.teamId);
+  assert.equal(payload.sub, CREDENTIALS.clientId);
+  assert.equal(payload.aud, 'https://appleid.apple.com');
+  assert.ok(payload.exp > payload.iat);
+});
+
+test('maps popularity and omits terms without data', async () => {
+  const popularity = await client.getPopularity(['Fitness Tracker', 'step counter', 'zzzz'], 'gb');
+  assert.deepEqual(popularity, { 'fitness tracker': 62, 'step counter': 41 });
+
+  const request = mock.lastApiRequest;
+  assert.equal(request.query.get('adamId'), CREDENTIALS.adamId);
+  assert.equal(request.headers['x-ap-context'], `orgId=${CREDENTIALS.orgId}`);
+  assert.deepEqual(JSON.parse(request.body).storefronts, ['GB']);
+});
+
+test('reuses the cached token across requests', async () => {
+  const before = mock.tokenRequests;
+  await Promise.all([
+    client.getPopularity(['fitness tracker']),
+    client.getRecommendations('fitness'),
+    client.getPopularity(['step counter']),
+  ]);
+  assert.equal(mock.tokenRequests, before);
+});
+
+test('shares one token request between concurrent first calls', async () => {
+  const fresh = new AppleSearchAdsService(client.options);
+  const before = mock.tokenRequests;
+  await Promise.all([fresh.getPopularity(['fitness tracker']), fresh.getPopularity(['step counter'])]);
+  assert.equal(mock.tokenRequests, before + 1);
+});
+
+test('refreshes a rejected token and retries once', async () => {
+  const before = mock.tokenRequests;
+  mock.rejectNextApiCall = true;
+  const popularity = await client.getPopularity(['fitness tracker']);
+  assert.equal(popularity['fitness tracker'], 62);
+  assert.equal(mock.tokenRequests, before + 1);
+});
+
+test('maps recommendations', async () => {
+  const recommendations = await client.getRecommendations('fitness', 'us');
+  assert.deepEqual(recommendations, [
+    { keyword: 'fitness tracker app', popularity: 35 },
+    { keyword: 'fitness watch', popularity: null },
+  ]);
+  assert.equal(mock.lastApiRequest.query.get('text'), 'fitness');
+  assert.equal(mock.lastApiRequest.query.get('storefronts'), 'US');
+});
+
+test('reports authentication failures', async () => {
+  const wrongKey = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).privateKey;
+  const badClient = new AppleSearchAdsService({
+    ...client.options,
+    privateKey: wrongKey.export({ type: 'pkcs8', format: 'pem' }),
+  });
+  await assert.rejects(badClient.getPopularity(['fitness tracker']), /authentication failed: invalid_client/);
+});
+
+test('refuses to call Apple without credentials', async () => {
+  const unconfigured = new AppleSearchAdsService({ ...client.options, orgId: undefined });
+  assert.equal(unconfigured.isConfigured(), false);
+  await assert.rejects(unconfigured.getPopularity(['fitness tracker']), /not configured/);
+});
+
+async function main() {
+  await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${server.address().port}`;
+  client = new AppleSearchAdsService({
+    ...CREDENTIALS,
+    authUrl: `${baseUrl}/auth/oauth2/token`,
+    apiUrl: `${baseUrl}/api/v5`,
+  });
+
+  console.log('\n🧪 Testing Apple Search Ads client against a mock server...\n');
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}`);
+      console.log(`   ${error.message}`);
+    }
+  }
+
+  server.close();
+  console.log(`\n${tests.length - failed}/${tests.length} passed`);
+  process.exitCode = failed > 0 ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,65 @@
+/**
+ * Test script for keyword title match strength
+ *
+ * Classifies how directly sample apps target a keyword and checks:
+ * 1. The whole phrase in the title is an exact match
+ * 2. Keyword words in the title, or the phrase in the description, are a partial match
+ * 3. Stopwords such as "app", "for" and "the" never make a partial match on their own
+ *
+ * No network access is needed (the Prisma client must be generated: npx prisma generate).
+ *
+ * Usage: node test-title-match.js
+ */
+
+import assert from 'assert/strict';
+import { keywordService } from './src/services/keyword.service.js';
+
+const tests = [];
+const test = (name, fn) => tests.push({ name, fn });
+
+const match = (keyword, name, description = '') => keywordService.matchStrength(keyword, { name, description });
+
+test('matches the whole phrase in the title exactly', () => {
+  assert.equal(match('budget app for couples', 'Budget App for Couples: Honeydue'), 'exact');
+  assert.equal(match('photo editor', 'Photo Editor - Filters & Effects'), 'exact');
+});
+
+test('matches keyword words in the title partially', () => {
+  assert.equal(match('budget app for couples', 'Couples Budget Planner'), 'partial');
+  assert.equal(match('budget app for couples', 'Simple Budget'), 'partial');
+});
+
+test('does not count stopwords as title matches', () => {
+  assert.equal(match('budget app for couples', 'The App for Everything'), 'none');
+  assert.equal(match('budget app for couples', 'Fitness App'), 'none');
+});
+
+test('matches the whole phrase in the description partially', () => {
+  assert.equal(match('budget app for couples', 'Honeydue', 'The budget app for couples who share bills.'), 'partial');
+});
+
+test('treats keywords made only of stopwords as no match', () => {
+  assert.equal(match('the best app', 'Best App Ever'), 'none');
+  assert.equal(match('the best app', 'Notes', 'Simply the best app for notes.'), 'none');
+  assert.equal(match('', 'Notes'), 'none');
+});
+
+async function main() {
+  console.log('\n🧪 Testing keyword title match strength...\n');
+  let failed = 0;
+  for (const { name, fn } of tests) {
+    try {
+      await fn();
+      console.log(`✅ ${name}`);
+    } catch (error) {
+      failed++;
+      console.log(`❌ ${name}`);
+      console.log(`   ${error.message}`);
+    }
+  }
+
+  console.log(`\n${tests.length - failed}/${tests.length} passed`);
+  process.exitCode = failed > 0 ? 1 : 0;
+}
+
+main();